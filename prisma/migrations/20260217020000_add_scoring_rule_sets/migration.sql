@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ScoringRuleSet" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "version" INTEGER NOT NULL,
+    "name" TEXT,
+    "notes" TEXT,
+    "rules" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- AlterTable
+ALTER TABLE "MonthlySnapshot" ADD COLUMN "ruleSetVersion" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringRuleSet_version_key" ON "ScoringRuleSet"("version");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ScoringWeight" ADD COLUMN "decayCurve" TEXT NOT NULL DEFAULT 'step';
+ALTER TABLE "ScoringWeight" ADD COLUMN "decayYears" REAL;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "MonthlySnapshot" ADD COLUMN "weights" TEXT;
+ALTER TABLE "MonthlySnapshot" ADD COLUMN "decay" TEXT;
+ALTER TABLE "MonthlySnapshot" ADD COLUMN "rollingWindowYears" REAL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SnapshotEntry" ADD COLUMN "scoreLow" REAL;
+ALTER TABLE "SnapshotEntry" ADD COLUMN "scoreHigh" REAL;
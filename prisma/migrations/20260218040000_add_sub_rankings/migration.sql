@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SubRankingEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "snapshotId" TEXT NOT NULL,
+    "chefId" TEXT NOT NULL,
+    "dimension" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" REAL NOT NULL,
+    "delta" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SubRankingEntry_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "MonthlySnapshot" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SubRankingEntry_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SubRankingEntry_snapshotId_dimension_key_idx" ON "SubRankingEntry"("snapshotId", "dimension", "key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubRankingEntry_snapshotId_dimension_key_chefId_key" ON "SubRankingEntry"("snapshotId", "dimension", "key", "chefId");
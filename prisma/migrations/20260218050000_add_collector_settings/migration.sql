@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CollectorSetting" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "collectorId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "rateLimitMs" INTEGER NOT NULL,
+    "maxRetries" INTEGER NOT NULL,
+    "retryBaseDelayMs" INTEGER NOT NULL,
+    "schedule" TEXT NOT NULL DEFAULT 'every_run',
+    "chefSlugs" TEXT,
+    "lastRunAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectorSetting_collectorId_key" ON "CollectorSetting"("collectorId");
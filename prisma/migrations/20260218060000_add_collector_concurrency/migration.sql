@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CollectorSetting" ADD COLUMN "concurrency" INTEGER NOT NULL DEFAULT 4;
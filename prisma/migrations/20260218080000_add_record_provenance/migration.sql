@@ -0,0 +1,124 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Accolade" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "detail" TEXT,
+    "year" INTEGER,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Accolade_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Accolade_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Accolade" ("chefId", "createdAt", "detail", "id", "sourceUrl", "type", "year") SELECT "chefId", "createdAt", "detail", "id", "sourceUrl", "type", "year" FROM "Accolade";
+DROP TABLE "Accolade";
+ALTER TABLE "new_Accolade" RENAME TO "Accolade";
+CREATE TABLE "new_CareerEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "restaurant" TEXT NOT NULL,
+    "city" TEXT,
+    "startYear" INTEGER,
+    "endYear" INTEGER,
+    "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CareerEntry_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CareerEntry_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_CareerEntry" ("chefId", "city", "createdAt", "endYear", "id", "isCurrent", "restaurant", "role", "sourceUrl", "startYear") SELECT "chefId", "city", "createdAt", "endYear", "id", "isCurrent", "restaurant", "role", "sourceUrl", "startYear" FROM "CareerEntry";
+DROP TABLE "CareerEntry";
+ALTER TABLE "new_CareerEntry" RENAME TO "CareerEntry";
+CREATE TABLE "new_IndustryRecognition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "category" TEXT,
+    "year" INTEGER,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "IndustryRecognition_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "IndustryRecognition_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_IndustryRecognition" ("category", "chefId", "createdAt", "id", "sourceUrl", "title", "year") SELECT "category", "chefId", "createdAt", "id", "sourceUrl", "title", "year" FROM "IndustryRecognition";
+DROP TABLE "IndustryRecognition";
+ALTER TABLE "new_IndustryRecognition" RENAME TO "IndustryRecognition";
+CREATE TABLE "new_PeerStanding" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "detail" TEXT,
+    "relatedChef" TEXT,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PeerStanding_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PeerStanding_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_PeerStanding" ("chefId", "createdAt", "detail", "id", "relatedChef", "sourceUrl", "type") SELECT "chefId", "createdAt", "detail", "id", "relatedChef", "sourceUrl", "type" FROM "PeerStanding";
+DROP TABLE "PeerStanding";
+ALTER TABLE "new_PeerStanding" RENAME TO "PeerStanding";
+CREATE TABLE "new_PublicSignal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "metric" TEXT,
+    "value" REAL,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PublicSignal_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PublicSignal_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_PublicSignal" ("chefId", "createdAt", "id", "metric", "platform", "sourceUrl", "value") SELECT "chefId", "createdAt", "id", "metric", "platform", "sourceUrl", "value" FROM "PublicSignal";
+DROP TABLE "PublicSignal";
+ALTER TABLE "new_PublicSignal" RENAME TO "PublicSignal";
+CREATE TABLE "new_PendingChange" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "recordId" TEXT,
+    "reviewNote" TEXT,
+    "runId" TEXT,
+    "newsItemId" TEXT,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" DATETIME,
+    CONSTRAINT "PendingChange_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PendingChange_newsItemId_fkey" FOREIGN KEY ("newsItemId") REFERENCES "NewsItem" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_PendingChange" ("chefId", "createdAt", "id", "kind", "payload", "recordId", "reviewNote", "reviewedAt", "source", "status") SELECT "chefId", "createdAt", "id", "kind", "payload", "recordId", "reviewNote", "reviewedAt", "source", "status" FROM "PendingChange";
+DROP TABLE "PendingChange";
+ALTER TABLE "new_PendingChange" RENAME TO "PendingChange";
+CREATE INDEX "PendingChange_status_source_idx" ON "PendingChange"("status", "source");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
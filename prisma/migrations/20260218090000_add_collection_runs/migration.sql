@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "CollectionRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "collectorIds" TEXT,
+    "chefsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "queued" INTEGER NOT NULL DEFAULT 0,
+    "logs" TEXT,
+    "skipped" TEXT,
+    "error" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME
+);
+
+-- CreateTable
+CREATE TABLE "CollectionRunOutcome" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "collectorId" TEXT NOT NULL,
+    "chefId" TEXT NOT NULL,
+    "found" INTEGER NOT NULL DEFAULT 0,
+    "queued" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    CONSTRAINT "CollectionRunOutcome_runId_fkey" FOREIGN KEY ("runId") REFERENCES "CollectionRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CollectionRunOutcome_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PendingChange_runId_idx" ON "PendingChange"("runId");
+
+-- CreateIndex
+CREATE INDEX "CollectionRun_startedAt_idx" ON "CollectionRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "CollectionRunOutcome_runId_idx" ON "CollectionRunOutcome"("runId");
+
+-- CreateIndex
+CREATE INDEX "CollectionRunOutcome_chefId_idx" ON "CollectionRunOutcome"("chefId");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PublicSignalReading" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "signalId" TEXT NOT NULL,
+    "value" REAL,
+    "metric" TEXT,
+    "runId" TEXT,
+    "recordedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PublicSignalReading_signalId_fkey" FOREIGN KEY ("signalId") REFERENCES "PublicSignal" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PublicSignalReading_signalId_recordedAt_idx" ON "PublicSignalReading"("signalId", "recordedAt");
+
+-- Backfill: each existing signal's current value becomes its first reading
+INSERT INTO "PublicSignalReading" ("id", "signalId", "value", "metric", "runId", "recordedAt")
+SELECT 'r' || lower(hex(randomblob(12))), "id", "value", "metric", "runId", COALESCE("collectedAt", "createdAt")
+FROM "PublicSignal";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Accolade" ADD COLUMN "restaurant" TEXT;
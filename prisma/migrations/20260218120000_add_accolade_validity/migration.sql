@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Accolade" ADD COLUMN "endReason" TEXT;
+ALTER TABLE "Accolade" ADD COLUMN "endYear" INTEGER;
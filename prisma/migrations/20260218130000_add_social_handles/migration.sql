@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SocialHandle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chefId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "handle" TEXT NOT NULL,
+    "sourceUrl" TEXT,
+    "origin" TEXT,
+    "runId" TEXT,
+    "collectedAt" DATETIME,
+    "confidence" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SocialHandle_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SocialHandle_chefId_platform_key" ON "SocialHandle"("chefId", "platform");
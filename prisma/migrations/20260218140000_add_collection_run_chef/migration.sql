@@ -0,0 +1,23 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_CollectionRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "collectorIds" TEXT,
+    "chefId" TEXT,
+    "chefsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "queued" INTEGER NOT NULL DEFAULT 0,
+    "logs" TEXT,
+    "skipped" TEXT,
+    "error" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    CONSTRAINT "CollectionRun_chefId_fkey" FOREIGN KEY ("chefId") REFERENCES "Chef" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_CollectionRun" ("chefsProcessed", "collectorIds", "error", "finishedAt", "id", "logs", "queued", "skipped", "startedAt", "status") SELECT "chefsProcessed", "collectorIds", "error", "finishedAt", "id", "logs", "queued", "skipped", "startedAt", "status" FROM "CollectionRun";
+DROP TABLE "CollectionRun";
+ALTER TABLE "new_CollectionRun" RENAME TO "CollectionRun";
+CREATE INDEX "CollectionRun_startedAt_idx" ON "CollectionRun"("startedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,58 @@
+/**
+ * Backtest a scoring model against every published monthly snapshot and print
+ * the rank changes it would have caused.
+ *
+ * The optional model file holds the same JSON the sandbox sends:
+ *   { "weights": {...}, "ruleOverrides": {...}, "decay": {...}, "months": ["2025-06"] }
+ * Without one, the live model is replayed.
+ *
+ * Usage: npx tsx scripts/backtest.ts [model.json] [--json]
+ */
+
+import { readFileSync } from "fs";
+import { runBacktest, type BacktestInput } from "../src/lib/backtest";
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes("--json");
+  const modelPath = args.find((a) => !a.startsWith("--"));
+  const input: BacktestInput = modelPath ? JSON.parse(readFileSync(modelPath, "utf-8")) : {};
+
+  const report = await runBacktest(input, (month, i, total) => {
+    if (!asJson) console.log(`Replaying ${month} (${i + 1}/${total})...`);
+  });
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (report.months.length === 0) {
+    console.log("No snapshots to backtest against.");
+    return;
+  }
+
+  console.log(`\n=== Backtest (based on rules v${report.model.baseRuleSetVersion ?? "default"}) ===\n`);
+  for (const m of report.months) {
+    console.log(`${m.month}: ${m.movedCount}/${m.chefCount} chefs move, mean |Δ| ${m.meanAbsDelta} (published with rules v${m.historicalRuleSetVersion ?? "?"})`);
+    const movers = [...m.entries].sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)).slice(0, 5);
+    for (const e of movers.filter((e) => e.delta !== 0)) {
+      console.log(`    ${e.chef.name}: #${e.historicalRank} -> #${e.backtestRank} (${formatDelta(e.delta)})`);
+    }
+  }
+
+  console.log("\n--- Biggest average movers ---");
+  for (const c of report.chefs.slice(0, 10)) {
+    if (c.meanDelta === 0) break;
+    console.log(`  ${c.chef.name}: mean ${formatDelta(c.meanDelta)} over ${c.monthsCompared} months, largest ${formatDelta(c.largestMove.delta)} in ${c.largestMove.month}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Backtest failed:", (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * Backtest replay check: scores a chef whose follower count grew after an
+ * earlier month and fails if the later reading leaks into that month, or if a
+ * signal with no reading yet is counted.
+ *
+ * Usage: npx tsx scripts/check-backtest.ts
+ */
+
+import { chefAsOf } from "../src/lib/backtest";
+import { createChecks } from "./check-helpers";
+import { calculateBreakdown } from "../src/lib/scoring-engine";
+import { DEFAULT_DECAY, DEFAULT_SCORING_RULES } from "../src/types";
+
+const JANUARY_END = new Date("2026-02-01T00:00:00Z");
+const MARCH_END = new Date("2026-04-01T00:00:00Z");
+
+const chef = {
+  yearsExperience: null,
+  accolades: [],
+  careerEntries: [],
+  recognitions: [],
+  peerStandings: [],
+  publicSignals: [
+    {
+      // The row carries the latest value, observed in March
+      platform: "INSTAGRAM",
+      value: 400000,
+      createdAt: new Date("2025-12-01T00:00:00Z"),
+      readings: [
+        { value: 20000, recordedAt: new Date("2025-12-01T00:00:00Z") },
+        { value: 400000, recordedAt: new Date("2026-03-10T00:00:00Z") },
+      ],
+    },
+    {
+      // Created in December but first read in March
+      platform: "YOUTUBE",
+      value: 90000,
+      createdAt: new Date("2025-12-01T00:00:00Z"),
+      readings: [{ value: 90000, recordedAt: new Date("2026-03-10T00:00:00Z") }],
+    },
+  ],
+};
+
+function main() {
+  const { expect, report } = createChecks();
+
+  const january = chefAsOf(chef, JANUARY_END);
+  const march = chefAsOf(chef, MARCH_END);
+  expect("January signals", january.publicSignals.map((s) => [s.platform, s.value]), [["INSTAGRAM", 20000]]);
+  expect("March signals", march.publicSignals.map((s) => [s.platform, s.value]), [["INSTAGRAM", 400000], ["YOUTUBE", 90000]]);
+
+  const januaryOnly = { ...chef, publicSignals: [{ ...chef.publicSignals[0], value: 20000, readings: chef.publicSignals[0].readings.slice(0, 1) }] };
+  expect(
+    "January public signals score",
+    calculateBreakdown(january, DEFAULT_SCORING_RULES, DEFAULT_DECAY, JANUARY_END).publicSignals,
+    calculateBreakdown(januaryOnly, DEFAULT_SCORING_RULES, DEFAULT_DECAY, JANUARY_END).publicSignals
+  );
+
+  report("Backtest months only see signal readings from before they ended.");
+}
+
+main();
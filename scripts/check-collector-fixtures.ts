@@ -0,0 +1,218 @@
+/**
+ * Collector fixture check: replays the saved pages under fixtures/collectors/http
+ * through each collector's parser and compares the CollectionResult output with
+ * fixtures/collectors/expected, along with how many items the source's selectors
+ * matched on each page. No network, database or API key is needed.
+ *
+ * The cookbooks collector reads fixtures/collectors/cookbooks.json through its
+ * COOKBOOK_CATALOG stand-in rather than recorded Open Library responses.
+ *
+ * The news-ai collector is not covered: it reads linked news from the database
+ * and extracts records with the model, so it has no parser to pin down here.
+ *
+ * Usage: npx tsx scripts/check-collector-fixtures.ts [--update]
+ *   --update  rewrite the expected outputs from the current parsers
+ *
+ * To capture new samples from the live sites, run any collector with
+ * COLLECTOR_FIXTURES=record COLLECTOR_FIXTURES_DIR=fixtures/collectors/http.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { httpGet } from "../src/lib/collectors/http";
+import { michelinCollector } from "../src/lib/collectors/michelin";
+import { jamesBeardCollector } from "../src/lib/collectors/james-beard";
+import { worlds50BestCollector } from "../src/lib/collectors/worlds-50-best";
+import { bocuseDorCollector } from "../src/lib/collectors/bocuse-dor";
+import { gaultMillauCollector } from "../src/lib/collectors/gault-millau";
+import { laListeCollector } from "../src/lib/collectors/la-liste";
+import { parseInstagramProfile } from "../src/lib/collectors/instagram";
+import { parseYouTubeChannel } from "../src/lib/collectors/youtube";
+import { parseTikTokProfile } from "../src/lib/collectors/tiktok";
+import { cookbooksCollector } from "../src/lib/collectors/cookbooks";
+import { handleDiscoveryCollector } from "../src/lib/collectors/handle-discovery";
+import { emptyParseStats, type ParseStats } from "../src/lib/collectors/selectors";
+import { DEFAULT_RUN_OPTIONS, type Collector, type CollectionResult, type CollectorChef } from "../src/lib/collectors/types";
+
+const FIXTURES_DIR = join(__dirname, "..", "fixtures", "collectors");
+const EXPECTED_DIR = join(FIXTURES_DIR, "expected");
+
+// One chef at a time so results come back in a fixed order
+const OPTIONS = { ...DEFAULT_RUN_OPTIONS, concurrency: 1 };
+
+// Earlier guide years and list placings give the collectors something to compare against for losses;
+// a managed website gives handle discovery a second place to look
+const CHEFS: CollectorChef[] = [
+  {
+    id: "chef-pic", name: "Anne-Sophie Pic", slug: "anne-sophie-pic", currentRestaurant: "Maison Pic", city: "Valence",
+    restaurants: [{ name: "Maison Pic", city: "Valence" }],
+    accolades: [],
+    socialHandles: [{ platform: "WEBSITE", handle: "https://www.pic-valence.fr" }],
+  },
+  {
+    id: "chef-bottura", name: "Massimo Bottura", slug: "massimo-bottura", currentRestaurant: "Osteria Francescana", city: "Modena",
+    restaurants: [{ name: "Osteria Francescana", city: "Modena" }],
+    accolades: [{ type: "MICHELIN_STAR", detail: "3 stars", restaurant: "Osteria Francescana", year: 2024, endYear: null }],
+    socialHandles: [],
+  },
+  {
+    id: "chef-schaefer", name: "Virginia Schaefer", slug: "virginia-schaefer", currentRestaurant: "Hearth & Tide", city: "Portland",
+    restaurants: [{ name: "Hearth & Tide", city: "Portland" }],
+    accolades: [
+      { type: "MICHELIN_STAR", detail: "2 stars", restaurant: "Hearth & Tide", year: 2024, endYear: null },
+      { type: "WORLDS_50_BEST", detail: "#38 World's 50 Best Restaurants", restaurant: null, year: 2024, endYear: null },
+    ],
+    socialHandles: [],
+  },
+  {
+    id: "chef-castro", name: "Eduardo Castro", slug: "eduardo-castro", currentRestaurant: "Disfrutar", city: "Barcelona",
+    restaurants: [{ name: "Disfrutar", city: "Barcelona" }, { name: "Taberna Castro", city: "Barcelona" }],
+    accolades: [],
+    socialHandles: [],
+  },
+];
+
+// Regional list placings from an earlier year, one still on the list and one that dropped off;
+// then near misses that must not match a list entry, and a name that differs only by its article
+const LIST_CHEFS: CollectorChef[] = [
+  ...CHEFS,
+  {
+    id: "chef-martinez", name: "Virgilio Martínez", slug: "virgilio-martinez", currentRestaurant: "Central", city: "Lima",
+    restaurants: [{ name: "Central", city: "Lima" }],
+    accolades: [{ type: "LATIN_AMERICAS_50_BEST", detail: "#3 Latin America's 50 Best Restaurants", restaurant: "Central", year: 2024, endYear: null }],
+    socialHandles: [],
+  },
+  {
+    id: "chef-hasegawa", name: "Zaiyu Hasegawa", slug: "zaiyu-hasegawa", currentRestaurant: "Den", city: "Tokyo",
+    restaurants: [{ name: "Den", city: "Tokyo" }],
+    accolades: [{ type: "ASIAS_50_BEST", detail: "#10 Asia's 50 Best Restaurants", restaurant: "Den", year: 2024, endYear: null }],
+    socialHandles: [],
+  },
+  {
+    id: "chef-nomad", name: "Daniel Humm", slug: "daniel-humm", currentRestaurant: "Nomad", city: "New York",
+    restaurants: [{ name: "Nomad", city: "New York" }],
+    accolades: [],
+    socialHandles: [],
+  },
+  {
+    id: "chef-central-kitchen", name: "Jo Barrett", slug: "jo-barrett", currentRestaurant: "Central Kitchen", city: "London",
+    restaurants: [{ name: "Central Kitchen", city: "London" }],
+    accolades: [],
+    socialHandles: [],
+  },
+  {
+    id: "chef-maido-miami", name: "Ana Ruiz", slug: "ana-ruiz", currentRestaurant: "Maido", city: "Miami",
+    restaurants: [{ name: "Maido", city: "Miami" }],
+    accolades: [],
+    socialHandles: [],
+  },
+  {
+    id: "chef-chairman", name: "Danny Yip", slug: "danny-yip", currentRestaurant: "Chairman", city: "Hong Kong",
+    restaurants: [{ name: "Chairman", city: "Hong Kong" }],
+    accolades: [],
+    socialHandles: [],
+  },
+];
+
+const INSTAGRAM_PROFILES = [
+  { chefId: "chef-bottura", url: "https://www.instagram.com/massimobottura/" },
+  { chefId: "chef-pic", url: "https://www.instagram.com/annesophiepic/" },
+];
+
+const YOUTUBE_CHANNELS = [
+  { chefId: "chef-bottura", url: "https://www.youtube.com/@MassimoBottura" },
+  { chefId: "chef-pic", url: "https://www.youtube.com/@annesophiepic" },
+];
+
+const TIKTOK_PROFILES = [
+  { chefId: "chef-bottura", url: "https://www.tiktok.com/@massimobottura" },
+  { chefId: "chef-pic", url: "https://www.tiktok.com/@annesophiepic" },
+];
+
+interface FixtureCase {
+  name: string;
+  run: () => Promise<{ parse?: ParseStats; results: CollectionResult[] }>;
+}
+
+// Profile collectors look their URLs up in the database, so the fixture check drives their parsers directly
+async function profiles(parse: (chefId: string, url: string, html: string) => CollectionResult | null, list: { chefId: string; url: string }[]) {
+  const results: CollectionResult[] = [];
+  for (const { chefId, url } of list) {
+    const result = parse(chefId, url, await httpGet(url, OPTIONS));
+    if (result) results.push(result);
+  }
+  return { results };
+}
+
+async function scrape(collector: Collector, chefs = CHEFS) {
+  const parse = emptyParseStats();
+  const results = await collector.collect(chefs, OPTIONS, parse);
+  return { parse, results };
+}
+
+const CASES: FixtureCase[] = [
+  // Chefs without a recorded search page exercise the per-chef failure paths
+  { name: "michelin", run: () => scrape(michelinCollector) },
+  { name: "james-beard", run: () => scrape(jamesBeardCollector) },
+  { name: "worlds-50-best", run: () => scrape(worlds50BestCollector, LIST_CHEFS) },
+  { name: "bocuse-dor", run: () => scrape(bocuseDorCollector) },
+  { name: "gault-millau", run: () => scrape(gaultMillauCollector) },
+  { name: "la-liste", run: () => scrape(laListeCollector) },
+  { name: "instagram", run: () => profiles(parseInstagramProfile, INSTAGRAM_PROFILES) },
+  { name: "youtube", run: () => profiles(parseYouTubeChannel, YOUTUBE_CHANNELS) },
+  { name: "tiktok", run: () => profiles(parseTikTokProfile, TIKTOK_PROFILES) },
+  { name: "cookbooks", run: async () => ({ results: await cookbooksCollector.collect(CHEFS, OPTIONS) }) },
+  { name: "handle-discovery", run: async () => ({ results: await handleDiscoveryCollector.collect(CHEFS, OPTIONS) }) },
+];
+
+// The World's 50 Best list, and drop-offs from it, are stamped with the year they were collected
+function stable(output: Awaited<ReturnType<FixtureCase["run"]>>) {
+  const currentYear = new Date().getFullYear();
+  return JSON.parse(JSON.stringify(output, (key, value) =>
+    (key === "year" || key === "endYear") && value === currentYear ? "<current year>" : value
+  ));
+}
+
+async function main() {
+  process.env.COLLECTOR_FIXTURES = "replay";
+  process.env.COLLECTOR_FIXTURES_DIR = join(FIXTURES_DIR, "http");
+  process.env.COOKBOOK_CATALOG = join(FIXTURES_DIR, "cookbooks.json");
+  const update = process.argv.includes("--update");
+
+  const failures: string[] = [];
+  for (const { name, run } of CASES) {
+    const actual = stable(await run());
+    const expectedPath = join(EXPECTED_DIR, `${name}.json`);
+
+    if (update) {
+      mkdirSync(EXPECTED_DIR, { recursive: true });
+      writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + "\n");
+      console.log(`  updated ${name} (${actual.results.length} results)`);
+      continue;
+    }
+    if (!existsSync(expectedPath)) {
+      failures.push(`${name}: no expected output, run with --update`);
+      continue;
+    }
+
+    const expected = readFileSync(expectedPath, "utf-8");
+    if (JSON.stringify(actual, null, 2) + "\n" !== expected) {
+      failures.push(`${name}: output differs from ${expectedPath}\n${JSON.stringify(actual, null, 2)}`);
+    } else {
+      console.log(`  ok ${name} (${actual.results.length} results)`);
+    }
+  }
+
+  if (update) return;
+  console.log(`Checked ${CASES.length} collectors against recorded fixtures.`);
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} mismatches:`);
+    for (const f of failures) console.error(`  ${f}`);
+    process.exit(1);
+  }
+
+  console.log("Collector output matches the fixtures.");
+}
+
+main();
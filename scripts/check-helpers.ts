@@ -0,0 +1,29 @@
+/**
+ * Shared by the scoring check scripts: collects failed expectations and exits
+ * non-zero with the list, or prints the success message once all have passed.
+ */
+
+export interface Checks {
+  expect(label: string, actual: unknown, expected: unknown): void;
+  report(passed: string): void;
+}
+
+export function createChecks(): Checks {
+  const failures: string[] = [];
+  return {
+    // Compared as JSON so arrays and objects match by value
+    expect(label, actual, expected) {
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    },
+    report(passed) {
+      if (failures.length > 0) {
+        console.error(`${failures.length} failures:`);
+        for (const f of failures) console.error(`  ${f}`);
+        process.exit(1);
+      }
+      console.log(passed);
+    },
+  };
+}
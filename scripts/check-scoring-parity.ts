@@ -0,0 +1,170 @@
+/**
+ * Scoring parity check: loads every chef in data/chefs-manual.json into a
+ * scratch database built from the migrations, then scores each one through the
+ * server path (calculateChefScore and explainChefScore, reading the active rule
+ * set, weights and decay curves from the database) and the browser path (the
+ * chef, rules and decay as the API returns them as JSON, run through the
+ * client-side engine) and fails on any difference in the breakdown.
+ *
+ * Usage: npx tsx scripts/check-scoring-parity.ts
+ */
+
+import { createClient } from "@libsql/client";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_DECAY,
+  DEFAULT_SCORING_RULES,
+  DEFAULT_WEIGHTS,
+  SCORE_CATEGORIES,
+  type ManualChefData,
+  type ScoringDecay,
+  type ScoringRules,
+} from "../src/types";
+
+const ROOT = join(__dirname, "..");
+
+// Every third record is backdated past the window to exercise createdAt decay
+function fixtureTimestamp(index: number): Date {
+  const d = new Date();
+  d.setFullYear(d.getFullYear() - (index % 3 === 2 ? 12 : 1));
+  return d;
+}
+
+// The app opens dev.db in the working directory, so the scratch database is laid out the same way
+async function createScratchDatabase(dir: string): Promise<void> {
+  const client = createClient({ url: `file:${join(dir, "dev.db")}` });
+  const migrationsDir = join(ROOT, "prisma", "migrations");
+  for (const name of readdirSync(migrationsDir).filter((n) => !n.endsWith(".toml")).sort()) {
+    await client.executeMultiple(readFileSync(join(migrationsDir, name, "migration.sql"), "utf-8"));
+  }
+  client.close();
+}
+
+async function main() {
+  const chefs: ManualChefData[] = JSON.parse(readFileSync(join(ROOT, "data", "chefs-manual.json"), "utf-8"));
+
+  const dir = mkdtempSync(join(tmpdir(), "scoring-parity-"));
+  await createScratchDatabase(dir);
+  process.chdir(dir);
+
+  const { prisma } = await import("../src/lib/db");
+  const { calculateChefScore, explainChefScore, getDecay, getActiveRuleSet } = await import("../src/lib/scoring");
+  const { calculateBreakdown: clientBreakdown } = await import("../src/lib/scoring-engine");
+
+  const ruleVariants: { label: string; rules: ScoringRules; decay: ScoringDecay }[] = [
+    { label: "default rules", rules: DEFAULT_SCORING_RULES, decay: DEFAULT_DECAY },
+    { label: "no rolling window", rules: { ...DEFAULT_SCORING_RULES, rollingWindowYears: 0 }, decay: DEFAULT_DECAY },
+    {
+      label: "mixed decay curves",
+      rules: DEFAULT_SCORING_RULES,
+      decay: {
+        ...DEFAULT_DECAY,
+        formalAccolades: { curve: "exponential", years: 5 },
+        careerTrack: { curve: "linear", years: 15 },
+        publicSignals: { curve: "exponential", years: 2 },
+      },
+    },
+  ];
+
+  let checks = 0;
+  const failures: string[] = [];
+
+  try {
+    const ids: string[] = [];
+    for (const [i, data] of chefs.entries()) {
+      const chef = await prisma.chef.create({
+        data: {
+          name: data.name,
+          slug: `chef-${i}`,
+          yearsExperience: data.yearsExperience ?? null,
+          accolades: {
+            create: (data.accolades || []).map((a, j) => ({
+              type: a.type, detail: a.detail ?? null, restaurant: a.restaurant ?? null, year: a.year ?? null,
+              endYear: a.endYear ?? null, endReason: a.endReason ?? null, createdAt: fixtureTimestamp(j),
+            })),
+          },
+          careerEntries: {
+            create: (data.career || []).map((c, j) => ({
+              role: c.role, restaurant: c.restaurant, isCurrent: c.isCurrent ?? false,
+              startYear: c.startYear ?? null, endYear: c.endYear ?? null, createdAt: fixtureTimestamp(j),
+            })),
+          },
+          recognitions: {
+            create: (data.recognitions || []).map((r, j) => ({
+              title: r.title, category: r.category ?? null, year: r.year ?? null, createdAt: fixtureTimestamp(j),
+            })),
+          },
+          publicSignals: {
+            create: (data.publicSignals || []).map((s, j) => ({
+              platform: s.platform, metric: s.metric ?? null, value: s.value ?? null, createdAt: fixtureTimestamp(j),
+              readings: { create: { value: s.value ?? null, metric: s.metric ?? null, recordedAt: fixtureTimestamp(j) } },
+            })),
+          },
+          peerStandings: {
+            create: (data.peerStandings || []).map((p, j) => ({
+              type: p.type, detail: p.detail ?? null, createdAt: fixtureTimestamp(j),
+            })),
+          },
+        },
+      });
+      ids.push(chef.id);
+    }
+
+    for (const [v, { label, rules, decay }] of ruleVariants.entries()) {
+      // Store the variant the way Settings does: a new active rule set, and decay curves on the weight rows
+      await prisma.scoringRuleSet.updateMany({ data: { isActive: false } });
+      await prisma.scoringRuleSet.create({ data: { version: v + 1, rules: JSON.stringify(rules), isActive: true } });
+      for (const category of SCORE_CATEGORIES) {
+        const setting = { weight: DEFAULT_WEIGHTS[category], decayCurve: decay[category].curve, decayYears: decay[category].years };
+        await prisma.scoringWeight.upsert({ where: { category }, update: setting, create: { category, ...setting } });
+      }
+
+      // What the profile page receives from /api/chefs/[slug], /api/scoring/rules and /api/scoring/decay
+      const clientRules = JSON.parse(JSON.stringify((await getActiveRuleSet()).rules));
+      const clientDecay = JSON.parse(JSON.stringify(await getDecay()));
+
+      for (const [i, id] of ids.entries()) {
+        const row = await prisma.chef.findUniqueOrThrow({
+          where: { id },
+          include: {
+            accolades: { orderBy: { year: "desc" } },
+            careerEntries: { orderBy: { startYear: "desc" } },
+            recognitions: { orderBy: { year: "desc" } },
+            publicSignals: { include: { readings: { orderBy: { recordedAt: "asc" } } } },
+            peerStandings: true,
+          },
+        });
+        const client = clientBreakdown(JSON.parse(JSON.stringify(row)), clientRules, clientDecay);
+        const server = (await calculateChefScore(id)).breakdown;
+        const explained = (await explainChefScore(id)).breakdown;
+        checks++;
+
+        for (const key of SCORE_CATEGORIES) {
+          if (server[key] !== client[key]) {
+            failures.push(`[${label}] ${chefs[i].name}: ${key} server=${server[key]} client=${client[key]}`);
+          }
+          if (explained[key] !== client[key]) {
+            failures.push(`[${label}] ${chefs[i].name}: ${key} explanation=${explained[key]} client=${client[key]}`);
+          }
+        }
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`Compared ${checks} breakdowns across ${ruleVariants.length} rule variants.`);
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} mismatches:`);
+    for (const f of failures) console.error(`  ${f}`);
+    process.exit(1);
+  }
+
+  console.log("Server and client scoring are identical.");
+}
+
+main();
@@ -0,0 +1,92 @@
+/**
+ * Stored rule set check: parses a rule set as saved before later accolade
+ * types existed (the original v1 defaults) and fails unless those types score
+ * under it, while a points key removed on purpose stays removed, and that
+ * Bocuse d'Or placings are graded by prize.
+ *
+ * Usage: npx tsx scripts/check-scoring-rules.ts
+ */
+
+import { calculateBreakdown, parseRules } from "../src/lib/scoring-engine";
+import { DEFAULT_DECAY, DEFAULT_SCORING_RULES } from "../src/types";
+import { createChecks } from "./check-helpers";
+
+const NOW = new Date("2026-01-15T00:00:00Z");
+
+// Version 1 as getActiveRuleSet stored it on installs that predate the later accolade types
+const STORED_V1 = {
+  rollingWindowYears: 10,
+  formalAccolades: {
+    michelinStarPoints: { "1": 40, "2": 70, "3": 100 },
+    accoladePoints: { JAMES_BEARD: 80, WORLDS_50_BEST: 90, BOCUSE_DOR: 85 },
+    otherPoints: 30,
+    otherMultiplier: 0.3,
+    additionalAccoladePoints: 5,
+    additionalAccoladeCap: 20,
+  },
+  careerTrack: {
+    pointsPerYear: 2,
+    yearsCap: 40,
+    pointsPerPosition: 6,
+    positionsCap: 30,
+    execRolePattern: "chef.*owner|executive|head chef|chef de cuisine",
+    execRolePoints: 30,
+    otherRolePoints: 15,
+  },
+  industryRecognition: {
+    pointsPerRecognition: 12,
+    categoryPoints: { MEDIA: 8, MENTORSHIP: 10, PUBLICATION: 5, SPEAKING: 6 },
+  },
+  publicSignals: { pointsPerSignal: 15, followerDivisor: 10000, followerCap: 50 },
+  peerStanding: {
+    pointsPerPeer: 10,
+    typePoints: { MENTORED: 15, COLLABORATION: 10, ENDORSEMENT: 12 },
+  },
+};
+
+function chefWith(type: string, detail: string) {
+  return {
+    accolades: [{ type, detail, year: 2025, createdAt: NOW }],
+    careerEntries: [],
+    recognitions: [],
+    publicSignals: [],
+    peerStandings: [],
+  };
+}
+
+function main() {
+  const { expect, report } = createChecks();
+
+  const stored = parseRules(JSON.parse(JSON.stringify(STORED_V1)));
+  const asia = chefWith("ASIAS_50_BEST", "#3 Asia's 50 Best Restaurants");
+  expect(
+    "Asia's 50 Best #3 under stored v1",
+    calculateBreakdown(asia, stored, DEFAULT_DECAY, NOW).formalAccolades,
+    calculateBreakdown(asia, DEFAULT_SCORING_RULES, DEFAULT_DECAY, NOW).formalAccolades
+  );
+  expect("stored James Beard points kept", stored.formalAccolades.accoladePoints.JAMES_BEARD, 80);
+
+  // A key set to null survives a save and reload instead of coming back from the defaults
+  const removed = parseRules(JSON.parse(JSON.stringify(parseRules({
+    ...STORED_V1,
+    formalAccolades: { ...STORED_V1.formalAccolades, accoladePoints: { ...STORED_V1.formalAccolades.accoladePoints, LA_LISTE: null } },
+  }))));
+  expect("removed La Liste points", removed.formalAccolades.accoladePoints.LA_LISTE, null);
+  expect(
+    "La Liste under a set that removed it",
+    calculateBreakdown(chefWith("LA_LISTE", "97.5 points"), removed, DEFAULT_DECAY, NOW).formalAccolades,
+    0
+  );
+
+  // Only gold keeps the old flat value; a special prize sits below a James Beard award
+  const bocuse = (detail: string) =>
+    calculateBreakdown(chefWith("BOCUSE_DOR", detail), stored, DEFAULT_DECAY, NOW).formalAccolades;
+  const jamesBeard = calculateBreakdown(chefWith("JAMES_BEARD", "Best Chef"), stored, DEFAULT_DECAY, NOW).formalAccolades;
+  expect("Bocuse d'Or gold under stored v1", bocuse("Gold (France)"), 85);
+  expect("Bocuse d'Or silver under stored v1", bocuse("Silver (United States)"), 70);
+  expect("Bocuse d'Or special prize below James Beard", bocuse("Best Fish (United States)") < jamesBeard, true);
+
+  report("Stored rule sets score accolade types added since they were saved.");
+}
+
+main();
@@ -1,8 +1,8 @@
 /**
  * CLI wrapper for the data collection orchestrator.
- * Runs all collectors and prints results.
+ * Runs the enabled collectors that are due (or the ones named) and prints results.
  *
- * Usage: npx tsx scripts/collect-data.ts
+ * Usage: npx tsx scripts/collect-data.ts [collector-id ...]
  */
 
 import { PrismaClient } from "../src/generated/prisma/client";
@@ -19,14 +19,18 @@ async function main() {
 
   // Dynamic import to use the orchestrator
   const { runCollection } = await import("../src/lib/collectors/orchestrator");
-  const summary = await runCollection();
+  const collectorIds = process.argv.slice(2);
+  const summary = await runCollection({ collectorIds: collectorIds.length > 0 ? collectorIds : undefined });
 
-  console.log(`\nStatus: ${summary.status}`);
+  console.log(`\nRun: ${summary.runId}`);
+  console.log(`Status: ${summary.status}`);
   console.log(`Chefs processed: ${summary.totalChefsProcessed}`);
-  console.log(`New accolades: ${summary.newAccolades}`);
-  console.log(`Updated signals: ${summary.updatedSignals}`);
-  console.log(`New career entries: ${summary.newCareerEntries}`);
-  console.log(`New peer standings: ${summary.newPeerStandings}`);
+  console.log(`Accolades queued: ${summary.newAccolades}`);
+  console.log(`Accolade losses queued: ${summary.endedAccolades}`);
+  console.log(`Signals queued: ${summary.updatedSignals}`);
+  console.log(`Career entries queued: ${summary.newCareerEntries}`);
+  console.log(`Peer standings queued: ${summary.newPeerStandings}`);
+  console.log(`Social handles queued: ${summary.newSocialHandles}`);
 
   console.log("\n--- Source Details ---");
   for (const log of summary.logs) {
@@ -38,6 +42,9 @@ async function main() {
       }
     }
   }
+  for (const skip of summary.skipped) {
+    console.log(`  [-] ${skip.source}: skipped, ${skip.reason}`);
+  }
 
   console.log(`\nTimestamp: ${summary.timestamp}`);
   console.log("\nCollection complete.");
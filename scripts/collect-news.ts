@@ -2,7 +2,7 @@ import { PrismaClient } from "../src/generated/prisma/client";
 import { PrismaLibSql } from "@prisma/adapter-libsql";
 import { resolve } from "path";
 import { mkdirSync, writeFileSync } from "fs";
-import axios from "axios";
+import { httpGet } from "../src/lib/collectors/http";
 import * as cheerio from "cheerio";
 
 // ---------------------------------------------------------------------------
@@ -46,10 +46,6 @@ function truncate(text: string, maxLen: number): string {
   return text.slice(0, maxLen - 3) + "...";
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 // ---------------------------------------------------------------------------
 // RSS fetching & parsing
 // ---------------------------------------------------------------------------
@@ -65,14 +61,10 @@ async function fetchChefNews(chefName: string): Promise<RssArticle[]> {
   const query = `"${chefName}" chef`;
   const rssUrl = `https://news.google.com/rss/search?q=${encodeURIComponent(query)}&hl=en-US&gl=US&ceid=US:en`;
 
-  const response = await axios.get(rssUrl, {
-    headers: {
-      "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)",
-    },
-    timeout: 15000,
-  });
+  // The shared client spaces requests to Google and supports COLLECTOR_FIXTURES replay
+  const xml = await httpGet(rssUrl, { timeoutMs: 15000 });
 
-  const $ = cheerio.load(response.data, { xmlMode: true });
+  const $ = cheerio.load(xml, { xmlMode: true });
   const articles: RssArticle[] = [];
 
   $("item").each((_, el) => {
@@ -207,9 +199,6 @@ async function main() {
       const message = err instanceof Error ? err.message : String(err);
       console.error(`  [ERROR] Failed to fetch news for ${chef.name}: ${message}`);
     }
-
-    // Be polite to Google
-    await sleep(500);
   }
 
   // ---------------------------------------------------------------------------
@@ -29,10 +29,12 @@ cron.schedule("0 6 * * 1", async () => {
     console.log(`[${new Date().toISOString()}] Collection complete:`);
     console.log(`  Status: ${summary.status}`);
     console.log(`  Chefs processed: ${summary.totalChefsProcessed}`);
-    console.log(`  New accolades: ${summary.newAccolades}`);
-    console.log(`  Updated signals: ${summary.updatedSignals}`);
-    console.log(`  New career entries: ${summary.newCareerEntries}`);
-    console.log(`  New peer standings: ${summary.newPeerStandings}`);
+    console.log(`  Accolades queued: ${summary.newAccolades}`);
+    console.log(`  Accolade losses queued: ${summary.endedAccolades}`);
+    console.log(`  Signals queued: ${summary.updatedSignals}`);
+    console.log(`  Career entries queued: ${summary.newCareerEntries}`);
+    console.log(`  Peer standings queued: ${summary.newPeerStandings}`);
+    console.log(`  Social handles queued: ${summary.newSocialHandles}`);
 
     for (const log of summary.logs) {
       console.log(`  [${log.source}] ${log.status} - ${log.itemsFound} items (${log.durationMs}ms)`);
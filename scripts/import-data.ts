@@ -2,6 +2,8 @@ import { PrismaClient } from "../src/generated/prisma/client";
 import { PrismaLibSql } from "@prisma/adapter-libsql";
 import { readFileSync } from "fs";
 import { join, resolve } from "path";
+import { manualProvenance, MANUAL_IMPORT } from "../src/lib/provenance";
+import { ACCOLADE_END_REASONS, type AccoladeEndReason } from "../src/types";
 
 interface ManualChefData {
   name: string;
@@ -11,7 +13,15 @@ interface ManualChefData {
   cuisineSpecialties?: string[];
   yearsExperience?: number;
   bio?: string;
-  accolades?: { type: string; detail?: string; year?: number; sourceUrl?: string }[];
+  accolades?: {
+    type: string;
+    detail?: string;
+    restaurant?: string;
+    year?: number;
+    endYear?: number;
+    endReason?: string;
+    sourceUrl?: string;
+  }[];
   career?: { role: string; restaurant: string; city?: string; startYear?: number; endYear?: number; isCurrent?: boolean }[];
   recognitions?: { title: string; category?: string; year?: number }[];
   publicSignals?: { platform: string; metric?: string; value?: number }[];
@@ -37,6 +47,15 @@ async function main() {
     const raw = readFileSync(dataPath, "utf-8");
     const chefs: ManualChefData[] = JSON.parse(raw);
 
+    // Checked up front so a bad entry stops the import before anything is written
+    for (const data of chefs) {
+      for (const a of data.accolades ?? []) {
+        if (a.endReason && !ACCOLADE_END_REASONS.includes(a.endReason as AccoladeEndReason)) {
+          throw new Error(`${data.name}: endReason must be one of ${ACCOLADE_END_REASONS.join(", ")}, got "${a.endReason}"`);
+        }
+      }
+    }
+
     console.log(`Importing ${chefs.length} chefs...`);
 
     for (const data of chefs) {
@@ -68,8 +87,12 @@ async function main() {
               chefId: chef.id,
               type: a.type,
               detail: a.detail || null,
+              restaurant: a.restaurant || null,
               year: a.year || null,
+              endYear: a.endYear || null,
+              endReason: a.endReason || null,
               sourceUrl: a.sourceUrl || null,
+              ...manualProvenance(MANUAL_IMPORT),
             },
           });
         }
@@ -86,6 +109,7 @@ async function main() {
               startYear: c.startYear || null,
               endYear: c.endYear || null,
               isCurrent: c.isCurrent || false,
+              ...manualProvenance(MANUAL_IMPORT),
             },
           });
         }
@@ -99,6 +123,7 @@ async function main() {
               title: r.title,
               category: r.category || null,
               year: r.year || null,
+              ...manualProvenance(MANUAL_IMPORT),
             },
           });
         }
@@ -112,6 +137,8 @@ async function main() {
               platform: s.platform,
               metric: s.metric || null,
               value: s.value || null,
+              ...manualProvenance(MANUAL_IMPORT),
+              readings: { create: { value: s.value || null, metric: s.metric || null } },
             },
           });
         }
@@ -125,6 +152,7 @@ async function main() {
               type: p.type,
               detail: p.detail || null,
               relatedChef: p.relatedChef || null,
+              ...manualProvenance(MANUAL_IMPORT),
             },
           });
         }
@@ -137,10 +165,9 @@ async function main() {
     const defaultWeights = [
       { category: "formalAccolades", weight: 0.30 },
       { category: "careerTrack", weight: 0.20 },
-      { category: "credentials", weight: 0.10 },
       { category: "industryRecognition", weight: 0.15 },
-      { category: "publicSignals", weight: 0.10 },
-      { category: "peerStanding", weight: 0.15 },
+      { category: "publicSignals", weight: 0.15 },
+      { category: "peerStanding", weight: 0.20 },
     ];
 
     for (const w of defaultWeights) {
@@ -152,103 +179,20 @@ async function main() {
     }
     console.log("Scoring weights initialized.");
 
-    // Recalculate scores
+    // Score through the same engine, rule set, weights and decay curves as the app
     console.log("Calculating scores...");
-    const allChefs = await prisma.chef.findMany({
-      where: { isArchived: false },
-      include: {
-        accolades: true,
-        careerEntries: true,
-        recognitions: true,
-        publicSignals: true,
-        peerStandings: true,
-      },
+    const { recalculateAllScores } = await import("../src/lib/scoring");
+    await recalculateAllScores();
+
+    const top = await prisma.chef.findMany({
+      where: { isArchived: false, rank: { not: null } },
+      orderBy: { rank: "asc" },
+      take: 10,
+      select: { name: true, totalScore: true, rank: true },
     });
-
-    const weights = {
-      formalAccolades: 0.30,
-      careerTrack: 0.20,
-      credentials: 0.10,
-      industryRecognition: 0.15,
-      publicSignals: 0.10,
-      peerStanding: 0.15,
-    };
-
-    // Inline scoring to avoid ESM/import issues in script context
-    function scoreMichelinStars(accolades: { type: string; detail: string | null }[]): number {
-      const michelin = accolades.filter((a) => a.type === "MICHELIN_STAR");
-      if (michelin.length === 0) return 0;
-      let best = 0;
-      for (const m of michelin) {
-        const stars = parseInt(m.detail || "1");
-        if (stars === 3) best = Math.max(best, 100);
-        else if (stars === 2) best = Math.max(best, 70);
-        else best = Math.max(best, 40);
-      }
-      return best;
-    }
-
-    const scored = allChefs.map((chef) => {
-      const michelinScore = scoreMichelinStars(chef.accolades);
-      const jbScore = chef.accolades.some((a) => a.type === "JAMES_BEARD") ? 80 : 0;
-      const w50Score = chef.accolades.some((a) => a.type === "WORLDS_50_BEST") ? 90 : 0;
-      const bocuseScore = chef.accolades.some((a) => a.type === "BOCUSE_DOR") ? 85 : 0;
-      const otherScore = chef.accolades.some((a) => a.type === "OTHER") ? 30 : 0;
-      const formalAccolades = Math.min(100, Math.max(michelinScore, jbScore, w50Score, bocuseScore) +
-        (chef.accolades.length > 1 ? Math.min(20, (chef.accolades.length - 1) * 5) : 0) +
-        otherScore * 0.3);
-
-      const years = chef.yearsExperience || 0;
-      const yearScore = Math.min(40, years * 2);
-      const positionScore = Math.min(30, chef.careerEntries.length * 6);
-      const hasExecRole = chef.careerEntries.some((c) =>
-        /chef.*owner|executive|head chef|chef de cuisine/i.test(c.role)
-      );
-      const careerTrack = Math.min(100, yearScore + positionScore + (hasExecRole ? 30 : 15));
-
-      const accoladeTypes = new Set(chef.accolades.map((a) => a.type));
-      const credentials = Math.min(100, accoladeTypes.size * 25 +
-        chef.careerEntries.filter((c) => c.startYear && c.endYear).length * 10);
-
-      const recCount = chef.recognitions.length;
-      const mediaRec = chef.recognitions.filter((r) => r.category === "MEDIA").length;
-      const mentorRec = chef.recognitions.filter((r) => r.category === "MENTORSHIP").length;
-      const pubRec = chef.recognitions.filter((r) => r.category === "PUBLICATION").length;
-      const industryRecognition = Math.min(100, recCount * 12 + mediaRec * 8 + mentorRec * 10 + pubRec * 5);
-
-      const signalCount = chef.publicSignals.length;
-      const totalSignalValue = chef.publicSignals.reduce((sum, s) => sum + (s.value || 0), 0);
-      const publicSignals = Math.min(100, signalCount * 15 + Math.min(50, totalSignalValue / 10000));
-
-      const peerCount = chef.peerStandings.length;
-      const mentored = chef.peerStandings.filter((p) => p.type === "MENTORED").length;
-      const collabs = chef.peerStandings.filter((p) => p.type === "COLLABORATION").length;
-      const endorsements = chef.peerStandings.filter((p) => p.type === "ENDORSEMENT").length;
-      const peerStanding = Math.min(100, peerCount * 10 + mentored * 15 + collabs * 10 + endorsements * 12);
-
-      const total =
-        formalAccolades * weights.formalAccolades +
-        careerTrack * weights.careerTrack +
-        credentials * weights.credentials +
-        industryRecognition * weights.industryRecognition +
-        publicSignals * weights.publicSignals +
-        peerStanding * weights.peerStanding;
-
-      return { id: chef.id, name: chef.name, total: Math.round(total * 10) / 10 };
-    });
-
-    scored.sort((a, b) => b.total - a.total);
-
-    for (let i = 0; i < scored.length; i++) {
-      await prisma.chef.update({
-        where: { id: scored[i].id },
-        data: { totalScore: scored[i].total, rank: i + 1 },
-      });
-    }
-
     console.log("\nTop 10:");
-    for (let i = 0; i < Math.min(10, scored.length); i++) {
-      console.log(`  ${i + 1}. ${scored[i].name} — ${scored[i].total}`);
+    for (const chef of top) {
+      console.log(`  ${chef.rank}. ${chef.name} — ${chef.totalScore}`);
     }
 
     console.log(`\nDone! Imported and scored ${chefs.length} chefs.`);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { manualProvenance, MANUAL_EDIT } from "@/lib/provenance";
 
 export async function GET(_req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params;
@@ -24,8 +25,12 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ slu
       chefId: chef.id,
       type: body.type,
       detail: body.detail || null,
+      restaurant: body.restaurant || null,
       year: body.year || null,
+      endYear: body.endYear || null,
+      endReason: body.endReason || null,
       sourceUrl: body.sourceUrl || null,
+      ...manualProvenance(MANUAL_EDIT),
     },
   });
   return NextResponse.json(accolade, { status: 201 });
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { runCollection } from "@/lib/collectors/orchestrator";
+import { getCollectorDefinition } from "@/lib/collectors/registry";
+import { describeQueued, queuedTotal } from "@/lib/collectors/run-history";
+
+/**
+ * Collect for this chef only, streaming progress as server-sent events.
+ * Optional body: { collectors: ["michelin", ...] } runs just those; otherwise every enabled collector runs.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const chef = await prisma.chef.findUnique({ where: { slug }, select: { name: true, isArchived: true } });
+  if (!chef || chef.isArchived) return NextResponse.json({ error: "Chef not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  const collectorIds = body?.collectors;
+  if (collectorIds !== undefined) {
+    if (!Array.isArray(collectorIds) || !collectorIds.every((id) => typeof id === "string")) {
+      return NextResponse.json({ error: "collectors must be an array of collector ids" }, { status: 400 });
+    }
+    const unknown = collectorIds.filter((id: string) => !getCollectorDefinition(id));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown collectors: ${unknown.join(", ")}` }, { status: 400 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      function send(data: Record<string, unknown>) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      }
+
+      try {
+        const result = await runCollection({
+          collectorIds,
+          chefSlug: slug,
+          onProgress: (progress) => send({ type: "progress", ...progress }),
+        });
+        send({
+          type: "complete",
+          runId: result.runId,
+          status: result.status,
+          resultSummary: `Collected for ${chef.name}. ${describeQueued(result)}`,
+          itemsAffected: queuedTotal(result),
+        });
+      } catch (err) {
+        send({ type: "error", message: (err as Error).message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
@@ -9,7 +9,8 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ slu
       accolades: { orderBy: { year: "desc" } },
       careerEntries: { orderBy: { startYear: "desc" } },
       recognitions: { orderBy: { year: "desc" } },
-      publicSignals: true,
+      publicSignals: { include: { readings: { orderBy: { recordedAt: "asc" } } } },
+      socialHandles: true,
       peerStandings: true,
       snapshotEntries: {
         include: { snapshot: true },
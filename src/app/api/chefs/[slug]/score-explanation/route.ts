@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { explainChefScore } from "@/lib/scoring";
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const chef = await prisma.chef.findUnique({ where: { slug }, select: { id: true } });
+
+  if (!chef) {
+    return NextResponse.json({ error: "Chef not found" }, { status: 404 });
+  }
+
+  const explanation = await explainChefScore(chef.id);
+  return NextResponse.json(explanation);
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { manualProvenance, MANUAL_EDIT } from "@/lib/provenance";
+import { isSocialPlatform, parseSocialHandle } from "@/lib/social-handles";
+import { SOCIAL_PLATFORMS } from "@/types";
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const chef = await prisma.chef.findUnique({ where: { slug }, include: { socialHandles: true } });
+  if (!chef) return NextResponse.json({ error: "Chef not found" }, { status: 404 });
+  return NextResponse.json(chef.socialHandles);
+}
+
+/** Replace the chef's handles: body.handles maps platform to handle or URL; blank removes it. */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const chef = await prisma.chef.findUnique({ where: { slug }, include: { socialHandles: true } });
+  if (!chef) return NextResponse.json({ error: "Chef not found" }, { status: 404 });
+
+  const body = await req.json();
+  const input: Record<string, unknown> = body.handles ?? {};
+  const handles = new Map<string, string>();
+  for (const [platform, value] of Object.entries(input)) {
+    if (!isSocialPlatform(platform)) {
+      return NextResponse.json({ error: `platform must be one of ${SOCIAL_PLATFORMS.join(", ")}` }, { status: 400 });
+    }
+    if (value == null || (typeof value === "string" && !value.trim())) continue;
+    const handle = typeof value === "string" ? parseSocialHandle(platform, value) : null;
+    if (!handle) return NextResponse.json({ error: `"${value}" is not a valid ${platform} handle` }, { status: 400 });
+    handles.set(platform, handle);
+  }
+
+  const { origin, collectedAt, confidence } = manualProvenance(MANUAL_EDIT);
+  for (const platform of SOCIAL_PLATFORMS) {
+    const existing = chef.socialHandles.find((h) => h.platform === platform);
+    const handle = handles.get(platform);
+    if (!handle) {
+      if (existing) await prisma.socialHandle.delete({ where: { id: existing.id } });
+      continue;
+    }
+    // An unchanged handle keeps where it was discovered
+    if (existing?.handle === handle) continue;
+    const data = { handle, sourceUrl: null, origin, runId: null, collectedAt, confidence };
+    await prisma.socialHandle.upsert({
+      where: { chefId_platform: { chefId: chef.id, platform } },
+      update: data,
+      create: { chefId: chef.id, platform, ...data },
+    });
+  }
+
+  return NextResponse.json(await prisma.socialHandle.findMany({ where: { chefId: chef.id } }));
+}
@@ -1,9 +1,23 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { runCollection } from "@/lib/collectors/orchestrator";
+import { getCollectorDefinition } from "@/lib/collectors/registry";
+
+export async function POST(req: NextRequest) {
+  // Optional body: { collectors: ["michelin", ...] } runs just those, ignoring their schedules
+  const body = await req.json().catch(() => ({}));
+  const collectorIds = body?.collectors;
+  if (collectorIds !== undefined) {
+    if (!Array.isArray(collectorIds) || !collectorIds.every((id) => typeof id === "string")) {
+      return NextResponse.json({ error: "collectors must be an array of collector ids" }, { status: 400 });
+    }
+    const unknown = collectorIds.filter((id: string) => !getCollectorDefinition(id));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown collectors: ${unknown.join(", ")}` }, { status: 400 });
+    }
+  }
 
-export async function POST() {
   try {
-    const summary = await runCollection();
+    const summary = await runCollection({ collectorIds });
     return NextResponse.json(summary);
   } catch (err) {
     return NextResponse.json(
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRunDetail } from "@/lib/collectors/run-history";
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const run = await getRunDetail(id);
+  if (!run) return NextResponse.json({ error: "Collection run not found" }, { status: 404 });
+  return NextResponse.json(run);
+}
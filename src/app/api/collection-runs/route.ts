@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listRuns } from "@/lib/collectors/run-history";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const limit = parseInt(searchParams.get("limit") || "50");
+  return NextResponse.json({ runs: await listRuns(limit) });
+}
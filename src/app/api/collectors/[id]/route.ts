@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  getCollectorDefinition,
+  listCollectors,
+  parseCollectorSettings,
+  resolveCollectors,
+  saveCollectorSettings,
+} from "@/lib/collectors/registry";
+
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!getCollectorDefinition(id)) {
+    return NextResponse.json({ error: "Collector not found" }, { status: 404 });
+  }
+
+  const current = (await resolveCollectors()).find((c) => c.definition.id === id)!;
+  let settings;
+  try {
+    settings = parseCollectorSettings(await req.json(), current.settings);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+
+  if (settings.chefSlugs) {
+    const found = await prisma.chef.findMany({
+      where: { slug: { in: settings.chefSlugs } },
+      select: { slug: true },
+    });
+    const known = new Set(found.map((c) => c.slug));
+    const unknown = settings.chefSlugs.filter((s) => !known.has(s));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown chef slugs: ${unknown.join(", ")}` }, { status: 400 });
+    }
+  }
+
+  await saveCollectorSettings(id, settings);
+  const collector = (await listCollectors()).find((c) => c.id === id);
+  return NextResponse.json(collector);
+}
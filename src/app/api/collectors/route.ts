@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listCollectors } from "@/lib/collectors/registry";
+
+export async function GET() {
+  return NextResponse.json({ collectors: await listCollectors() });
+}
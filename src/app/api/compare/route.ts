@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { calculateBreakdown, calculateTotalScore, getWeights } from "@/lib/scoring";
+import { calculateBreakdown, calculateTotalScore, calculateUncertainty, resolveScoringModel } from "@/lib/scoring";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -16,7 +16,7 @@ export async function GET(req: NextRequest) {
       accolades: true,
       careerEntries: true,
       recognitions: true,
-      publicSignals: true,
+      publicSignals: { include: { readings: true } },
       peerStandings: true,
     },
   });
@@ -25,12 +25,13 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "Not enough chefs found" }, { status: 404 });
   }
 
-  const weights = await getWeights();
+  const { weights, rules, decay } = await resolveScoringModel();
 
   const comparisons = chefs.map((chef) => {
-    const breakdown = calculateBreakdown(chef);
+    const breakdown = calculateBreakdown(chef, rules, decay);
     const totalScore = calculateTotalScore(breakdown, weights);
-    return { chef, breakdown, totalScore };
+    const uncertainty = calculateUncertainty(chef, totalScore, rules);
+    return { chef, breakdown, totalScore, uncertainty };
   });
 
   comparisons.sort((a, b) => b.totalScore - a.totalScore);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getWeights, calculateBreakdown, calculateTotalScore } from "@/lib/scoring";
+import { getWeights, resolveScoringModel, calculateBreakdown, calculateTotalScore } from "@/lib/scoring";
+import { dataCompleteness as chefCompleteness } from "@/lib/scoring-engine";
+import { lastCollectorLog } from "@/lib/collectors/run-history";
+import { SOURCE_SELECTORS, type ScrapedSource } from "@/lib/collectors/selectors";
 import axios from "axios";
 import * as cheerio from "cheerio";
 
@@ -16,18 +19,8 @@ async function dataCompleteness() {
     },
   });
 
-  const fields = ["city", "country", "currentRestaurant", "cuisineSpecialties", "yearsExperience", "photoUrl", "bio"];
   const results = chefs.map((chef) => {
-    const filled = fields.filter((f) => (chef as Record<string, unknown>)[f] != null).length;
-    const hasRelations = (chef._count.accolades > 0 ? 1 : 0) + (chef._count.careerEntries > 0 ? 1 : 0) +
-      (chef._count.publicSignals > 0 ? 1 : 0) + (chef._count.peerStandings > 0 ? 1 : 0);
-    const totalFields = fields.length + 4;
-    const completeness = Math.round(((filled + hasRelations) / totalFields) * 100);
-    const missing = fields.filter((f) => (chef as Record<string, unknown>)[f] == null);
-    if (chef._count.accolades === 0) missing.push("accolades");
-    if (chef._count.careerEntries === 0) missing.push("careerEntries");
-    if (chef._count.publicSignals === 0) missing.push("publicSignals");
-    if (chef._count.peerStandings === 0) missing.push("peerStandings");
+    const { completeness, missing } = chefCompleteness(chef, chef._count);
     return { name: chef.name, slug: chef.slug, completeness, missing };
   });
 
@@ -220,20 +213,22 @@ async function rankVolatility() {
 async function emptyBreakdown() {
   const chefs = await prisma.chef.findMany({
     where: { isArchived: false },
-    include: { accolades: true, careerEntries: true, publicSignals: true, peerStandings: true },
+    include: { accolades: true, careerEntries: true, recognitions: true, publicSignals: { include: { readings: true } }, peerStandings: true },
     orderBy: { totalScore: "desc" },
   });
+  const { rules, decay } = await resolveScoringModel();
 
   const results = chefs.map((chef) => {
-    const breakdown = calculateBreakdown(chef);
+    const breakdown = calculateBreakdown(chef, rules, decay);
     const categories = {
       formalAccolades: breakdown.formalAccolades > 0,
       careerTrack: breakdown.careerTrack > 0,
+      industryRecognition: breakdown.industryRecognition > 0,
       publicSignals: breakdown.publicSignals > 0,
       peerStanding: breakdown.peerStanding > 0,
     };
     const filledCount = Object.values(categories).filter(Boolean).length;
-    const emptyCount = 4 - filledCount;
+    const emptyCount = Object.keys(categories).length - filledCount;
     return {
       name: chef.name,
       slug: chef.slug,
@@ -313,6 +308,22 @@ async function duplicateArticles() {
 
 // ─── Data Connector Health Checks ───────────────────────────────
 
+// Selectors are broken if the probe page loaded without a single matching item,
+// or the last collection run loaded pages and parsed nothing from any of them
+async function selectorHealth(source: ScrapedSource, $: cheerio.CheerioAPI, httpStatus: number) {
+  const probeItems = $(SOURCE_SELECTORS[source].item).length;
+  const lastRun = await lastCollectorLog(source);
+  const selectorsBroken = (httpStatus === 200 && probeItems === 0) || lastRun?.selectorsBroken === true;
+  return {
+    selectorsBroken,
+    probeItems,
+    lastRunParse: lastRun?.parse ? { runId: lastRun.runId, startedAt: lastRun.startedAt, ...lastRun.parse } : null,
+    selectorNote: selectorsBroken
+      ? `Selectors matched nothing — check SOURCE_SELECTORS["${source}"] against the live page`
+      : undefined,
+  };
+}
+
 async function checkMichelinConnector() {
   const start = Date.now();
   try {
@@ -329,13 +340,15 @@ async function checkMichelinConnector() {
     const $ = cheerio.load(res.data);
     const hasContent = $("body").text().length > 500;
     const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
+    const selectors = await selectorHealth("michelin", $, res.status);
 
     return {
-      status: res.status === 200 && hasContent ? "reachable" : "degraded",
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 && hasContent ? "reachable" : "degraded",
       httpStatus: res.status,
       responseTimeMs: ms,
       hasContent,
       hasAnthropicKey: hasApiKey,
+      ...selectors,
       note: !hasApiKey ? "Anthropic API key missing — Claude fallback won't work" : undefined,
     };
   } catch (err) {
@@ -352,7 +365,8 @@ async function checkJamesBeardConnector() {
   const start = Date.now();
   try {
     const res = await axios.get(
-      "https://www.jamesbeard.org/awards/search?keyword=test",
+      // A past winner, so the results page should list award entries
+      "https://www.jamesbeard.org/awards/search?keyword=thomas%20keller",
       {
         timeout: 10000,
         headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
@@ -362,12 +376,14 @@ async function checkJamesBeardConnector() {
     const ms = Date.now() - start;
     const $ = cheerio.load(res.data);
     const hasSearchForm = $("form").length > 0 || $("[class*='search']").length > 0;
+    const selectors = await selectorHealth("james-beard", $, res.status);
 
     return {
-      status: res.status === 200 ? "reachable" : "degraded",
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 ? "reachable" : "degraded",
       httpStatus: res.status,
       responseTimeMs: ms,
       hasSearchForm,
+      ...selectors,
     };
   } catch (err) {
     return {
@@ -391,15 +407,112 @@ async function checkWorlds50BestConnector() {
     );
     const ms = Date.now() - start;
     const $ = cheerio.load(res.data);
-    const hasListItems = $(".list-item, .restaurant-item, [class*='rank']").length > 0;
     const bodyLength = $("body").text().length;
+    const selectors = await selectorHealth("worlds-50-best", $, res.status);
 
     return {
-      status: res.status === 200 && bodyLength > 1000 ? "reachable" : "degraded",
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 && bodyLength > 1000 ? "reachable" : "degraded",
       httpStatus: res.status,
       responseTimeMs: ms,
-      hasListItems,
+      hasListItems: selectors.probeItems > 0,
       contentLength: bodyLength,
+      ...selectors,
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
+async function checkBocuseDorConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get(
+      "https://www.bocusedor.com/en/winners",
+      {
+        timeout: 15000,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
+        validateStatus: () => true,
+      }
+    );
+    const ms = Date.now() - start;
+    const $ = cheerio.load(res.data);
+    const selectors = await selectorHealth("bocuse-dor", $, res.status);
+
+    return {
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      hasListItems: selectors.probeItems > 0,
+      ...selectors,
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
+async function checkGaultMillauConnector() {
+  const start = Date.now();
+  try {
+    // A long-listed restaurant, so the results page should show a card
+    const res = await axios.get(
+      "https://www.gaultmillau.com/en/search?q=maison%20pic",
+      {
+        timeout: 10000,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
+        validateStatus: () => true,
+      }
+    );
+    const ms = Date.now() - start;
+    const $ = cheerio.load(res.data);
+    const hasSearchForm = $("form").length > 0 || $("[class*='search']").length > 0;
+    const selectors = await selectorHealth("gault-millau", $, res.status);
+
+    return {
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      hasSearchForm,
+      ...selectors,
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
+async function checkLaListeConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get(
+      "https://www.laliste.com/en/search?q=maison%20pic",
+      {
+        timeout: 10000,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
+        validateStatus: () => true,
+      }
+    );
+    const ms = Date.now() - start;
+    const $ = cheerio.load(res.data);
+    const hasSearchForm = $("form").length > 0 || $("[class*='search']").length > 0;
+    const selectors = await selectorHealth("la-liste", $, res.status);
+
+    return {
+      status: selectors.selectorsBroken ? "selectors_broken" : res.status === 200 ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      hasSearchForm,
+      ...selectors,
     };
   } catch (err) {
     return {
@@ -454,6 +567,139 @@ async function checkInstagramConnector() {
   }
 }
 
+async function checkYouTubeConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get("https://www.youtube.com/@GordonRamsay", {
+      timeout: 10000,
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)", "Accept-Language": "en-US,en;q=0.9" },
+      maxRedirects: 3,
+      validateStatus: () => true,
+    });
+    const ms = Date.now() - start;
+    const canExtractFollowers = /[\d,.]+\s*[KMB]?\s+subscribers/i.test(String(res.data));
+    const existingSignals = await prisma.publicSignal.count({ where: { platform: "YOUTUBE" } });
+
+    return {
+      status: res.status === 200 ? (canExtractFollowers ? "reachable" : "degraded") : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      canExtractFollowers,
+      existingSignals,
+      signalLabel: "YouTube",
+      note: canExtractFollowers ? undefined : "Channel page showed no subscriber count — YouTube may be serving a consent page",
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
+async function checkTikTokConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get("https://www.tiktok.com/@gordonramsayofficial", {
+      timeout: 10000,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      },
+      maxRedirects: 3,
+      validateStatus: () => true,
+    });
+    const ms = Date.now() - start;
+    const canExtractFollowers = /"followerCount"\s*:\s*\d+|Followers/i.test(String(res.data));
+    const existingSignals = await prisma.publicSignal.count({ where: { platform: "TIKTOK" } });
+
+    // Like Instagram, a challenge page is routine and not an outage
+    return {
+      status: res.status === 200 ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      canExtractFollowers,
+      existingSignals,
+      signalLabel: "TikTok",
+      note: canExtractFollowers ? undefined : "TikTok served a challenge page — follower extraction blocked this session",
+    };
+  } catch (err) {
+    const existingSignals = await prisma.publicSignal.count({ where: { platform: "TIKTOK" } }).catch(() => 0);
+    return {
+      status: "degraded",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+      canExtractFollowers: false,
+      existingSignals,
+      signalLabel: "TikTok",
+    };
+  }
+}
+
+async function checkOpenLibraryConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get(
+      "https://openlibrary.org/search.json?author=Anne-Sophie%20Pic&fields=title,author_name&limit=5",
+      {
+        timeout: 10000,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
+        validateStatus: () => true,
+      }
+    );
+    const ms = Date.now() - start;
+    const hasContent = Array.isArray(res.data?.docs) && res.data.docs.length > 0;
+    const existingSignals = await prisma.publicSignal.count({ where: { platform: "COOKBOOK" } });
+
+    return {
+      status: res.status === 200 && hasContent ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      hasContent,
+      existingSignals,
+      signalLabel: "cookbook",
+      note: process.env.COOKBOOK_CATALOG ? `Collector reads the local catalog ${process.env.COOKBOOK_CATALOG}, not Open Library` : undefined,
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
+async function checkWikidataConnector() {
+  const start = Date.now();
+  try {
+    const res = await axios.get(
+      "https://www.wikidata.org/w/api.php?action=wbsearchentities&search=Anne-Sophie%20Pic&language=en&type=item&limit=5&format=json",
+      {
+        timeout: 10000,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
+        validateStatus: () => true,
+      }
+    );
+    const ms = Date.now() - start;
+    const hasContent = Array.isArray(res.data?.search) && res.data.search.length > 0;
+    const existingHandles = await prisma.socialHandle.count();
+
+    return {
+      status: res.status === 200 && hasContent ? "reachable" : "degraded",
+      httpStatus: res.status,
+      responseTimeMs: ms,
+      hasContent,
+      existingHandles,
+    };
+  } catch (err) {
+    return {
+      status: "unreachable",
+      error: (err as Error).message,
+      responseTimeMs: Date.now() - start,
+    };
+  }
+}
+
 async function checkNewsAiExtractor() {
   const start = Date.now();
   const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
@@ -505,7 +751,14 @@ const CHECK_MAP: Record<string, () => Promise<unknown>> = {
   connector_michelin: checkMichelinConnector,
   connector_james_beard: checkJamesBeardConnector,
   connector_worlds_50_best: checkWorlds50BestConnector,
+  connector_bocuse_dor: checkBocuseDorConnector,
+  connector_gault_millau: checkGaultMillauConnector,
+  connector_la_liste: checkLaListeConnector,
   connector_instagram: checkInstagramConnector,
+  connector_youtube: checkYouTubeConnector,
+  connector_tiktok: checkTikTokConnector,
+  connector_open_library: checkOpenLibraryConnector,
+  connector_wikidata: checkWikidataConnector,
   connector_news_ai: checkNewsAiExtractor,
 };
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { slugify } from "@/lib/utils";
 import { recalculateAllScores } from "@/lib/scoring";
+import { manualProvenance, MANUAL_IMPORT } from "@/lib/provenance";
 
 export async function POST(req: NextRequest) {
   const body = await req.json();
@@ -34,7 +35,7 @@ export async function POST(req: NextRequest) {
     if (data.accolades) {
       for (const a of data.accolades) {
         await prisma.accolade.create({
-          data: { chefId: chef.id, type: a.type, detail: a.detail || null, year: a.year || null, sourceUrl: a.sourceUrl || null },
+          data: { chefId: chef.id, type: a.type, detail: a.detail || null, restaurant: a.restaurant || null, year: a.year || null, endYear: a.endYear || null, endReason: a.endReason || null, sourceUrl: a.sourceUrl || null, ...manualProvenance(MANUAL_IMPORT) },
         });
       }
     }
@@ -42,7 +43,7 @@ export async function POST(req: NextRequest) {
     if (data.career) {
       for (const c of data.career) {
         await prisma.careerEntry.create({
-          data: { chefId: chef.id, role: c.role, restaurant: c.restaurant, city: c.city || null, startYear: c.startYear || null, endYear: c.endYear || null, isCurrent: c.isCurrent || false },
+          data: { chefId: chef.id, role: c.role, restaurant: c.restaurant, city: c.city || null, startYear: c.startYear || null, endYear: c.endYear || null, isCurrent: c.isCurrent || false, ...manualProvenance(MANUAL_IMPORT) },
         });
       }
     }
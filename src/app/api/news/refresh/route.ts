@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import axios from "axios";
+import { httpGet } from "@/lib/collectors/http";
 import * as cheerio from "cheerio";
 
 // --- Taste-relevance tagging (tagger, NOT filter) ---
@@ -107,10 +107,6 @@ function stripHtml(html: string): string {
   return $.text().trim();
 }
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
 interface RawArticle {
   title: string;
   url: string;
@@ -140,12 +136,13 @@ export async function POST() {
       const query = encodeURIComponent(`"${chef.name}" chef`);
       const rssUrl = `https://news.google.com/rss/search?q=${query}&hl=en-US&gl=US&ceid=US:en`;
 
-      const res = await axios.get(rssUrl, {
-        timeout: 10000,
+      // Spaced per host by the shared client, and replayable from fixtures
+      const xml = await httpGet(rssUrl, {
+        timeoutMs: 10000,
         headers: { "User-Agent": "ChefRanker/1.0" },
       });
 
-      const $ = cheerio.load(res.data, { xml: true });
+      const $ = cheerio.load(xml, { xml: true });
       const items = $("item");
 
       items.each((_, el) => {
@@ -189,8 +186,6 @@ export async function POST() {
           relevanceScore: taste.relevanceScore,
         });
       });
-
-      await sleep(500);
     } catch (err) {
       errors.push(`${chef.name}: ${(err as Error).message}`);
     }
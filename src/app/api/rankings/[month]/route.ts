@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { parseBreakdown, parseSnapshotScoring } from "@/lib/scoring-engine";
 
 export async function GET(_req: NextRequest, { params }: { params: Promise<{ month: string }> }) {
   const { month } = await params;
@@ -21,5 +22,9 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ mon
     return NextResponse.json({ error: "No snapshot for this month" }, { status: 404 });
   }
 
-  return NextResponse.json(snapshot);
+  return NextResponse.json({
+    ...snapshot,
+    ...parseSnapshotScoring(snapshot),
+    entries: snapshot.entries.map((e) => ({ ...e, breakdown: parseBreakdown(e.breakdown) })),
+  });
 }
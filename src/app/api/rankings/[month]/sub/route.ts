@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSnapshotSubRanking, isSubRankingDimension } from "@/lib/sub-rankings";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ month: string }> }) {
+  const { month } = await params;
+  const { searchParams } = new URL(req.url);
+  const dimension = searchParams.get("dimension");
+  const key = searchParams.get("key");
+
+  if (!isSubRankingDimension(dimension) || !key) {
+    return NextResponse.json({ error: "dimension (country, city, cuisine, category) and key are required" }, { status: 400 });
+  }
+
+  const entries = await getSnapshotSubRanking(month, dimension, key);
+  if (!entries) {
+    return NextResponse.json({ error: "No snapshot for this month" }, { status: 404 });
+  }
+  return NextResponse.json({ dimension, key, month, entries });
+}
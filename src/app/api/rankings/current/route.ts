@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { calculateBreakdown, calculateTotalScore, getWeights } from "@/lib/scoring";
+import { calculateBreakdown, calculateTotalScore, calculateUncertainty, resolveScoringModel } from "@/lib/scoring";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -19,7 +19,7 @@ export async function GET(req: NextRequest) {
       accolades: true,
       careerEntries: true,
       recognitions: true,
-      publicSignals: true,
+      publicSignals: { include: { readings: true } },
       peerStandings: true,
     },
     orderBy: { rank: "asc" },
@@ -28,7 +28,7 @@ export async function GET(req: NextRequest) {
   });
 
   const total = await prisma.chef.count({ where });
-  const weights = await getWeights();
+  const { weights, rules, decay } = await resolveScoringModel();
 
   // Get latest snapshot for delta calculation
   const latestSnapshot = await prisma.monthlySnapshot.findFirst({
@@ -48,17 +48,23 @@ export async function GET(req: NextRequest) {
     }
   }
 
-  const rankings = chefs.map((chef) => {
-    const breakdown = calculateBreakdown(chef);
+  // Position within the filtered list, i.e. the country/cuisine sub-rank
+  const filtered = Boolean(cuisine || country);
+
+  const rankings = chefs.map((chef, i) => {
+    const breakdown = calculateBreakdown(chef, rules, decay);
     const totalScore = calculateTotalScore(breakdown, weights);
+    const uncertainty = calculateUncertainty(chef, totalScore, rules);
     const prevRank = prevRankMap.get(chef.id);
     const delta = prevRank && chef.rank ? prevRank - chef.rank : null;
 
     return {
       rank: chef.rank,
+      subRank: filtered ? (page - 1) * limit + i + 1 : null,
       chef,
       totalScore,
       breakdown,
+      uncertainty,
       delta,
     };
   });
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLiveSubRanking, isSubRankingDimension, listSubRankingGroups } from "@/lib/sub-rankings";
+
+// Without dimension/key: the available sub-rankings. With both: the live sub-ranking.
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const dimension = searchParams.get("dimension");
+  const key = searchParams.get("key");
+
+  if (!dimension && !key) {
+    return NextResponse.json({ groups: await listSubRankingGroups() });
+  }
+  if (!isSubRankingDimension(dimension) || !key) {
+    return NextResponse.json({ error: "dimension (country, city, cuisine, category) and key are required" }, { status: 400 });
+  }
+
+  const entries = await getLiveSubRanking(dimension, key);
+  return NextResponse.json({ dimension, key, month: null, entries });
+}
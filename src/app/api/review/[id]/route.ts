@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { editChange } from "@/lib/review-queue";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const body = await req.json();
+
+  let change;
+  try {
+    change = await editChange(id, body.payload);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+  if (!change) {
+    return NextResponse.json({ error: "No pending change with this id" }, { status: 404 });
+  }
+  return NextResponse.json({ ...change, payload: JSON.parse(change.payload) });
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { approveChanges } from "@/lib/review-queue";
+
+// Body: { ids: string[] } or { source: "Michelin Guide" } to approve everything pending from a collector
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  try {
+    const approved = await approveChanges({ ids: body.ids, source: body.source });
+    return NextResponse.json({ approved });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
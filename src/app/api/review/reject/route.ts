@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rejectChanges } from "@/lib/review-queue";
+
+// Body: { ids: string[] } or { source }, plus an optional note
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  try {
+    const rejected = await rejectChanges({ ids: body.ids, source: body.source }, body.note);
+    return NextResponse.json({ rejected });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status") || "pending";
+  const source = searchParams.get("source");
+  const limit = parseInt(searchParams.get("limit") || "200");
+
+  const where: Record<string, unknown> = { status };
+  if (source) where.source = source;
+
+  const [changes, bySource] = await Promise.all([
+    prisma.pendingChange.findMany({
+      where,
+      include: { chef: { select: { name: true, slug: true } } },
+      orderBy: status === "pending" ? { createdAt: "asc" } : { reviewedAt: "desc" },
+      take: limit,
+    }),
+    prisma.pendingChange.groupBy({
+      by: ["source"],
+      where: { status: "pending" },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    changes: changes.map((c) => ({ ...c, payload: JSON.parse(c.payload) })),
+    pendingBySource: bySource.map((s) => ({ source: s.source, count: s._count._all })),
+  });
+}
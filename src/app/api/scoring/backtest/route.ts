@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBacktest } from "@/lib/backtest";
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+
+  if (body.months !== undefined && (!Array.isArray(body.months) || body.months.some((m: unknown) => typeof m !== "string"))) {
+    return NextResponse.json({ error: "months must be an array of YYYY-MM strings" }, { status: 400 });
+  }
+
+  try {
+    const report = await runBacktest({
+      weights: body.weights,
+      ruleOverrides: body.ruleOverrides,
+      decay: body.decay,
+      months: body.months,
+    });
+    return NextResponse.json(report);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getDecay } from "@/lib/scoring";
+
+// Saved through PUT /api/scoring together with the weights
+export async function GET() {
+  const decay = await getDecay();
+  return NextResponse.json(decay);
+}
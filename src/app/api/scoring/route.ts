@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { recalculateAllScores, getWeights } from "@/lib/scoring";
+import { recalculateAllScores, getDecay, getWeights } from "@/lib/scoring";
+import { parseDecay } from "@/lib/scoring-engine";
+import { DEFAULT_WEIGHTS, SCORE_CATEGORIES } from "@/types";
 
 export async function GET() {
   const weights = await getWeights();
@@ -9,14 +11,22 @@ export async function GET() {
 
 export async function PUT(req: NextRequest) {
   const body = await req.json();
-  const categories = ["formalAccolades", "careerTrack", "publicSignals", "peerStanding"];
 
-  for (const cat of categories) {
-    if (body[cat] !== undefined) {
+  // Decay curves are saved on the weight rows; categories left out keep theirs
+  let decay;
+  try {
+    decay = body.decay === undefined ? null : parseDecay(body.decay, await getDecay());
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+
+  for (const cat of SCORE_CATEGORIES) {
+    if (body[cat] !== undefined || decay) {
+      const curve = decay ? { decayCurve: decay[cat].curve, decayYears: decay[cat].years } : {};
       await prisma.scoringWeight.upsert({
         where: { category: cat },
-        update: { weight: body[cat] },
-        create: { category: cat, weight: body[cat] },
+        update: { ...(body[cat] !== undefined && { weight: body[cat] }), ...curve },
+        create: { category: cat, weight: body[cat] ?? DEFAULT_WEIGHTS[cat], ...curve },
       });
     }
   }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { recalculateAllScores } from "@/lib/scoring";
+import { parseRules } from "@/lib/scoring-engine";
+
+function parseVersion(raw: string): number | null {
+  const version = Number(raw);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ version: string }> }) {
+  const version = parseVersion((await params).version);
+  if (version === null) return NextResponse.json({ error: "version must be a positive integer" }, { status: 400 });
+  const ruleSet = await prisma.scoringRuleSet.findUnique({ where: { version } });
+  if (!ruleSet) return NextResponse.json({ error: "Rule set not found" }, { status: 404 });
+  return NextResponse.json({ ...ruleSet, rules: parseRules(JSON.parse(ruleSet.rules)) });
+}
+
+// Rule sets are immutable once saved; the only change allowed is activation.
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ version: string }> }) {
+  const version = parseVersion((await params).version);
+  if (version === null) return NextResponse.json({ error: "version must be a positive integer" }, { status: 400 });
+  const body = await req.json();
+
+  const ruleSet = await prisma.scoringRuleSet.findUnique({ where: { version } });
+  if (!ruleSet) return NextResponse.json({ error: "Rule set not found" }, { status: 404 });
+  if (body.isActive !== true) {
+    return NextResponse.json({ error: "Only activation is supported; activate another version instead" }, { status: 400 });
+  }
+
+  // Together, so a failed activation never leaves no rule set active
+  const [, updated] = await prisma.$transaction([
+    prisma.scoringRuleSet.updateMany({ where: { isActive: true }, data: { isActive: false } }),
+    prisma.scoringRuleSet.update({ where: { id: ruleSet.id }, data: { isActive: true } }),
+  ]);
+
+  await recalculateAllScores();
+
+  return NextResponse.json({ ...updated, rules: parseRules(JSON.parse(updated.rules)) });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getActiveRuleSet, recalculateAllScores } from "@/lib/scoring";
+import { parseRules } from "@/lib/scoring-engine";
+
+export async function GET() {
+  // Ensures the default rule set exists before listing
+  await getActiveRuleSet();
+
+  const rows = await prisma.scoringRuleSet.findMany({ orderBy: { version: "desc" } });
+  const ruleSets = rows.map((row) => ({ ...row, rules: parseRules(JSON.parse(row.rules)) }));
+  const active = ruleSets.find((r) => r.isActive) || null;
+
+  return NextResponse.json({ active, ruleSets });
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+
+  let rules;
+  try {
+    rules = parseRules(body.rules);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+
+  await getActiveRuleSet();
+  const latest = await prisma.scoringRuleSet.findFirst({ orderBy: { version: "desc" } });
+  const version = (latest?.version ?? 0) + 1;
+
+  const data = {
+    version,
+    name: body.name || null,
+    notes: body.notes || null,
+    rules: JSON.stringify(rules),
+    isActive: !!body.activate,
+  };
+  // Deactivate the old set and create the new one together, so a failure leaves the old one active
+  const created = body.activate
+    ? (await prisma.$transaction([
+      prisma.scoringRuleSet.updateMany({ where: { isActive: true }, data: { isActive: false } }),
+      prisma.scoringRuleSet.create({ data }),
+    ]))[1]
+    : await prisma.scoringRuleSet.create({ data });
+
+  if (body.activate) {
+    await recalculateAllScores();
+  }
+
+  return NextResponse.json({ ...created, rules }, { status: 201 });
+}
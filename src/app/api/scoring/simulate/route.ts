@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { simulateRankings } from "@/lib/scoring";
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+
+  try {
+    const result = await simulateRankings({
+      weights: body.weights,
+      ruleOverrides: body.ruleOverrides,
+      decay: body.decay,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { parseBreakdown, parseSnapshotScoring } from "@/lib/scoring-engine";
 
 export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
@@ -21,5 +22,9 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ id:
     return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
   }
 
-  return NextResponse.json(snapshot);
+  return NextResponse.json({
+    ...snapshot,
+    ...parseSnapshotScoring(snapshot),
+    entries: snapshot.entries.map((e) => ({ ...e, breakdown: parseBreakdown(e.breakdown) })),
+  });
 }
@@ -1,5 +1,5 @@
 import { prisma } from "@/lib/db";
-import axios from "axios";
+import { httpGet } from "@/lib/collectors/http";
 import * as cheerio from "cheerio";
 
 // Reuse taste-relevance logic from the main refresh route
@@ -77,8 +77,8 @@ export async function POST() {
           try {
             const query = encodeURIComponent(`"${chef.name}" chef`);
             const rssUrl = `https://news.google.com/rss/search?q=${query}&hl=en-US&gl=US&ceid=US:en`;
-            const res = await axios.get(rssUrl, { timeout: 10000, headers: { "User-Agent": "ChefRanker/1.0" } });
-            const $ = cheerio.load(res.data, { xml: true });
+            const xml = await httpGet(rssUrl, { timeoutMs: 10000, headers: { "User-Agent": "ChefRanker/1.0" } });
+            const $ = cheerio.load(xml, { xml: true });
 
             $("item").each((_, el) => {
               const title = $(el).find("title").text().trim();
@@ -1,5 +1,5 @@
 import { prisma } from "@/lib/db";
-import { getWeights, calculateBreakdown, calculateTotalScore } from "@/lib/scoring";
+import { resolveScoringModel, calculateBreakdown, calculateTotalScore } from "@/lib/scoring";
 
 export async function POST() {
   const encoder = new TextEncoder();
@@ -16,13 +16,13 @@ export async function POST() {
             accolades: true,
             careerEntries: true,
             recognitions: true,
-            publicSignals: true,
+            publicSignals: { include: { readings: true } },
             peerStandings: true,
           },
         });
 
         const total = chefs.length;
-        const weights = await getWeights();
+        const { weights, rules, decay } = await resolveScoringModel();
 
         send({ type: "progress", current: 0, total, message: "Calculating scores..." });
 
@@ -30,7 +30,7 @@ export async function POST() {
           if (i % 10 === 0) {
             // Can't send mid-map since it's sync, but we'll send after
           }
-          const breakdown = calculateBreakdown(chef);
+          const breakdown = calculateBreakdown(chef, rules, decay);
           const totalScore = calculateTotalScore(breakdown, weights);
           return { id: chef.id, name: chef.name, total: totalScore, breakdown };
         });
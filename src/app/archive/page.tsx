@@ -6,18 +6,32 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Archive, Calendar, ChevronRight, Trophy } from "lucide-react";
+import { SCORE_CATEGORIES, type ScoringDecay, type ScoringWeights } from "@/types";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  formalAccolades: "Accolades",
+  careerTrack: "Career",
+  industryRecognition: "Industry",
+  publicSignals: "Public",
+  peerStanding: "Peers",
+};
 
 interface Snapshot {
   id: string;
   month: string;
   publishedAt: string | null;
   notes: string | null;
+  ruleSetVersion: number | null;
   _count: { entries: number };
 }
 
 interface SnapshotDetail {
   id: string;
   month: string;
+  ruleSetVersion: number | null;
+  weights: ScoringWeights | null;
+  decay: ScoringDecay | null;
+  rollingWindowYears: number | null;
   entries: {
     rank: number;
     totalScore: number;
@@ -86,6 +100,7 @@ export default function ArchivePage() {
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
                       {snap._count.entries} chefs ranked
+                      {snap.ruleSetVersion != null && <> · rules v{snap.ruleSetVersion}</>}
                     </div>
                   </div>
                   <ChevronRight className="h-4 w-4 text-muted-foreground" />
@@ -107,6 +122,33 @@ export default function ArchivePage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                <div className="mb-4 rounded-md border p-3 text-xs space-y-2">
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                    <span>Rules {selected.ruleSetVersion != null ? `v${selected.ruleSetVersion}` : "unrecorded"}</span>
+                    <span>
+                      Rolling window {selected.rollingWindowYears != null ? `${selected.rollingWindowYears} years` : "unrecorded"}
+                    </span>
+                  </div>
+                  {selected.weights ? (
+                    <div className="flex flex-wrap gap-1.5">
+                      {SCORE_CATEGORIES.map((key) => {
+                        const decay = selected.decay?.[key];
+                        return (
+                          <Badge key={key} variant="outline" className="font-normal">
+                            {CATEGORY_LABELS[key]} {(selected.weights![key] * 100).toFixed(0)}%
+                            {decay && (
+                              <span className="text-muted-foreground ml-1">
+                                · {decay.curve}{decay.years != null ? ` ${decay.years}y` : ""}
+                              </span>
+                            )}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">Weights were not recorded for this snapshot.</p>
+                  )}
+                </div>
                 <div className="space-y-1">
                   {selected.entries.map((entry) => (
                     <div key={entry.chef.slug} className="flex items-center justify-between py-2 border-b last:border-0 text-sm">
@@ -11,11 +11,29 @@ import { Button } from "@/components/ui/button";
 import { ScoreRadar } from "@/components/charts/score-radar";
 import { ScoreBar } from "@/components/charts/score-bar";
 import { ScoreHistory } from "@/components/charts/score-history";
-import { calculateBreakdownClient } from "@/lib/scoring-client";
+import { SignalHistory } from "@/components/charts/signal-history";
+import { ageInYears, calculateBreakdown, decayFactor, listRank, previousPlacing, signalGrowth } from "@/lib/scoring-engine";
 import { formatScore, getImpactLevel } from "@/lib/utils";
+import { formatSocialHandle, SOCIAL_PLATFORM_LABELS, socialProfileUrl } from "@/lib/social-handles";
+import { MANUAL_EDIT } from "@/lib/provenance";
+import type { CollectorInfo } from "@/lib/collectors/types";
+import {
+  DEFAULT_DECAY,
+  DEFAULT_SCORING_RULES,
+  SOCIAL_PLATFORMS,
+  type RecordProvenance,
+  type ScoreExplanation,
+  type ScoreUncertainty,
+  type ScoringDecay,
+  type ScoringRules,
+  type ScoringWeights,
+  type SocialHandleData,
+  type SocialPlatform,
+} from "@/types";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import {
@@ -36,6 +54,8 @@ import {
   RefreshCw,
   ClipboardCopy,
   Check,
+  TrendingDown,
+  AtSign,
 } from "lucide-react";
 
 interface ChefDetail {
@@ -50,11 +70,29 @@ interface ChefDetail {
   bio: string | null;
   totalScore: number;
   rank: number | null;
-  accolades: { id: string; type: string; detail: string | null; year: number | null; sourceUrl: string | null }[];
-  careerEntries: { id: string; role: string; restaurant: string; city: string | null; startYear: number | null; endYear: number | null; isCurrent: boolean }[];
-  recognitions: { id: string; title: string; category: string | null; year: number | null }[];
-  publicSignals: { id: string; platform: string; metric: string | null; value: number | null }[];
-  peerStandings: { id: string; type: string; detail: string | null; relatedChef: string | null }[];
+  accolades: {
+    id: string;
+    type: string;
+    detail: string | null;
+    restaurant: string | null;
+    year: number | null;
+    endYear: number | null;
+    endReason: string | null;
+    sourceUrl: string | null;
+    createdAt: string;
+  }[];
+  careerEntries: { id: string; role: string; restaurant: string; city: string | null; startYear: number | null; endYear: number | null; isCurrent: boolean; createdAt: string }[];
+  recognitions: { id: string; title: string; category: string | null; year: number | null; createdAt: string }[];
+  publicSignals: {
+    id: string;
+    platform: string;
+    metric: string | null;
+    value: number | null;
+    createdAt: string;
+    readings: { value: number | null; recordedAt: string }[];
+  }[];
+  peerStandings: { id: string; type: string; detail: string | null; relatedChef: string | null; createdAt: string }[];
+  socialHandles: SocialHandleData[];
   snapshotEntries: { rank: number; totalScore: number; breakdown: string | null; delta: number | null; snapshot: { month: string } }[];
   newsItems: { newsItem: { id: string; title: string; url: string; source: string; category: string; publishedAt: string; summary: string | null; relevanceScore: number; isTasteRelevant: boolean } }[];
   contact: {
@@ -75,26 +113,71 @@ interface ChefDetail {
   }[];
 }
 
+const CATEGORY_LABELS: Record<string, string> = {
+  formalAccolades: "Formal Accolades",
+  careerTrack: "Career Track Record",
+  industryRecognition: "Industry Recognition",
+  publicSignals: "Public Signals",
+  peerStanding: "Peer Standing",
+};
+
 function accoladeLabel(type: string, detail: string | null): string {
   switch (type) {
     case "MICHELIN_STAR": return `Michelin ${detail || "Star"}`;
+    case "MICHELIN_GREEN_STAR": return "Michelin Green Star";
+    case "MICHELIN_BIB_GOURMAND": return "Michelin Bib Gourmand";
+    case "MICHELIN_STAR_LOSS": return `Lost Michelin star${detail ? ` (${detail})` : ""}`;
     case "JAMES_BEARD": return detail || "James Beard Award";
     case "WORLDS_50_BEST": return detail || "World's 50 Best";
-    case "BOCUSE_DOR": return detail || "Bocuse d'Or";
+    case "ASIAS_50_BEST": return detail || "Asia's 50 Best";
+    case "LATIN_AMERICAS_50_BEST": return detail || "Latin America's 50 Best";
+    case "BOCUSE_DOR": return `Bocuse d'Or${detail ? ` ${detail}` : ""}`;
+    case "GAULT_MILLAU": return `Gault&Millau${detail ? ` ${detail}` : ""}`;
+    case "LA_LISTE": return `La Liste${detail ? ` ${detail}` : ""}`;
     default: return detail || type;
   }
 }
 
+function ProvenanceLine({ provenance }: { provenance: RecordProvenance | null }) {
+  if (!provenance) return <p className="text-xs text-muted-foreground">Source not tracked (added before provenance)</p>;
+  return (
+    <p className="text-xs text-muted-foreground">
+      {provenance.origin}
+      {provenance.collectedAt && <> · {new Date(provenance.collectedAt).toLocaleDateString()}</>}
+      {provenance.confidence !== null && <> · {Math.round(provenance.confidence * 100)}% confidence</>}
+      {provenance.runId && <> · run {provenance.runId.slice(0, 8)}</>}
+      {provenance.newsItem && (
+        <> · from <a href={provenance.newsItem.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{provenance.newsItem.title}</a></>
+      )}
+    </p>
+  );
+}
+
 export default function ChefDetailPage() {
   const params = useParams();
   const slug = params.slug as string;
   const [chef, setChef] = useState<ChefDetail | null>(null);
+  const [rules, setRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [decay, setDecay] = useState<ScoringDecay>(DEFAULT_DECAY);
+  const [explanation, setExplanation] = useState<(ScoreExplanation & {
+    ruleSetVersion: number | null; weights: ScoringWeights; totalScore: number; uncertainty: ScoreUncertainty;
+  }) | null>(null);
   const [loading, setLoading] = useState(true);
   const [editingContact, setEditingContact] = useState(false);
   const [contactForm, setContactForm] = useState({
     email: "", agentName: "", agentEmail: "", restaurantEmail: "",
     phone: "", preferredContactMethod: "", linkedinUrl: "", notes: "",
   });
+  const [editingHandles, setEditingHandles] = useState(false);
+  const [handlesForm, setHandlesForm] = useState<Record<SocialPlatform, string>>(
+    Object.fromEntries(SOCIAL_PLATFORMS.map((p) => [p, ""])) as Record<SocialPlatform, string>
+  );
+  const [collectOpen, setCollectOpen] = useState(false);
+  const [collectors, setCollectors] = useState<CollectorInfo[]>([]);
+  const [selectedCollectors, setSelectedCollectors] = useState<string[]>([]); // none selected = every enabled collector
+  const [collecting, setCollecting] = useState(false);
+  const [collectProgress, setCollectProgress] = useState<{ current: number; total: number; message: string } | null>(null);
+  const [collectResult, setCollectResult] = useState<string | null>(null);
   const [generating, setGenerating] = useState(false);
   const [generatedDraft, setGeneratedDraft] = useState<{
     id: string; subject: string; body: string; dataPointsUsed: string[]; confidence: string;
@@ -109,8 +192,72 @@ export default function ChefDetailPage() {
       .then((r) => r.json())
       .then((data) => { setChef(data); setLoading(false); })
       .catch(() => setLoading(false));
+    fetch(`/api/chefs/${slug}/score-explanation`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setExplanation)
+      .catch(() => {});
   }, [slug]);
 
+  useEffect(() => {
+    fetch("/api/scoring/rules")
+      .then((r) => r.json())
+      .then((data) => { if (data.active) setRules(data.active.rules); })
+      .catch(() => {});
+    fetch("/api/scoring/decay")
+      .then((r) => r.json())
+      .then(setDecay)
+      .catch(() => {});
+  }, []);
+
+  async function collectForChef() {
+    setCollecting(true);
+    setCollectResult(null);
+    setCollectProgress({ current: 0, total: 0, message: "Starting..." });
+    try {
+      const res = await fetch(`/api/chefs/${slug}/collect`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(selectedCollectors.length > 0 ? { collectors: selectedCollectors } : {}),
+      });
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => ({ error: "Unknown error" }));
+        throw new Error(errBody.error || `HTTP ${res.status}`);
+      }
+
+      const reader = res.body?.getReader();
+      if (!reader) throw new Error("No response stream");
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const event of events) {
+          if (!event.startsWith("data: ")) continue;
+          const data = JSON.parse(event.slice(6));
+          if (data.type === "progress") {
+            setCollectProgress({ current: data.current, total: data.total, message: data.message || "" });
+          } else if (data.type === "complete") {
+            setCollectResult(data.resultSummary);
+            toast.success(data.resultSummary);
+          } else if (data.type === "error") {
+            throw new Error(data.message || "Collection failed");
+          }
+        }
+      }
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setCollecting(false);
+      setCollectProgress(null);
+    }
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -133,12 +280,18 @@ export default function ChefDetailPage() {
   }
 
   const cuisines: string[] = chef.cuisineSpecialties ? JSON.parse(chef.cuisineSpecialties) : [];
-  const breakdown = calculateBreakdownClient(chef);
+  const breakdown = calculateBreakdown(chef, rules, decay);
+  const now = new Date();
   const historyData = chef.snapshotEntries.map((e) => ({
     month: e.snapshot.month,
     score: e.totalScore,
     rank: e.rank,
   })).reverse();
+  const hasSignalHistory = chef.publicSignals.some((s) => s.readings.some((r) => r.value != null));
+  const growth = chef.publicSignals.flatMap((s) => {
+    const g = signalGrowth(s.readings, rules.publicSignals.momentumWindowDays, now);
+    return g ? [{ platform: s.platform, ...g }] : [];
+  });
 
   return (
     <div className="space-y-6">
@@ -159,6 +312,17 @@ export default function ChefDetailPage() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => {
+            setCollectResult(null);
+            setCollectOpen(true);
+            fetch("/api/collectors")
+              .then((r) => r.json())
+              .then((data) => setCollectors(data.collectors || []))
+              .catch(() => {});
+          }}>
+            <RefreshCw className="h-4 w-4" />
+            Collect
+          </Button>
           <Button size="sm" variant="default" className="gap-1" disabled={generating} onClick={async () => {
             setGenerating(true);
             try {
@@ -221,36 +385,157 @@ export default function ChefDetailPage() {
         </Card>
       </div>
 
-      {/* Score History */}
-      {historyData.length > 0 && (
+      {/* Score Explanation */}
+      {explanation && (
         <Card>
-          <CardHeader><CardTitle className="text-base">Score History</CardTitle></CardHeader>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between">
+              <span>Score Explanation</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                Total {formatScore(explanation.totalScore)} ±{explanation.uncertainty.margin.toFixed(1)}
+                {" "}({explanation.uncertainty.completeness}% complete)
+                {explanation.ruleSetVersion != null && <> · rules v{explanation.ruleSetVersion}</>}
+              </span>
+            </CardTitle>
+          </CardHeader>
           <CardContent>
-            <ScoreHistory data={historyData} />
+            <Tabs defaultValue={explanation.categories[0].category}>
+              <TabsList className="flex-wrap h-auto">
+                {explanation.categories.map((c) => (
+                  <TabsTrigger key={c.category} value={c.category} className="text-xs">
+                    {CATEGORY_LABELS[c.category]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {explanation.categories.map((c) => {
+                const weight = explanation.weights[c.category];
+                return (
+                  <TabsContent key={c.category} value={c.category} className="space-y-3 pt-2">
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                      <span className="font-medium">{formatScore(c.score)} / 100</span>
+                      <span className="text-muted-foreground">
+                        × {(weight * 100).toFixed(0)}% weight = {formatScore(c.score * weight)} points
+                      </span>
+                      <span className="text-xs text-muted-foreground">{c.decay}</span>
+                    </div>
+                    {c.capsHit.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {c.capsHit.map((cap) => <Badge key={cap} variant="secondary" className="text-xs">{cap}</Badge>)}
+                      </div>
+                    )}
+                    <div className="divide-y text-sm">
+                      {c.items.map((item, i) => (
+                        <div key={item.recordId ?? `${c.category}-${i}`} className={`flex items-start justify-between gap-4 py-1.5 ${item.excluded ? "text-muted-foreground" : ""}`}>
+                          <div className="min-w-0">
+                            <span className={item.excluded ? "line-through" : item.recordId ? "" : "italic"}>{item.label}</span>
+                            {item.year && <span className="text-xs text-muted-foreground ml-1">({item.year})</span>}
+                            {item.note && <p className="text-xs text-muted-foreground">{item.note}</p>}
+                            {item.provenance !== undefined && <ProvenanceLine provenance={item.provenance} />}
+                          </div>
+                          <div className="text-right shrink-0">
+                            <span className="font-mono">{item.points > 0 ? "+" : ""}{item.points}</span>
+                            {!item.excluded && item.decayWeight < 1 && (
+                              <p className="text-xs text-muted-foreground">{Math.round(item.decayWeight * 100)}% weight</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      {c.items.length === 0 && <p className="py-2 text-muted-foreground">No records in this category.</p>}
+                    </div>
+                    {c.uncapped !== c.score && (
+                      <p className="text-xs text-muted-foreground">Line items total {c.uncapped}, capped to {c.score}.</p>
+                    )}
+                  </TabsContent>
+                );
+              })}
+            </Tabs>
           </CardContent>
         </Card>
       )}
 
+      {/* Score History & Follower Trend */}
+      {(historyData.length > 0 || hasSignalHistory) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {historyData.length > 0 && (
+            <Card>
+              <CardHeader><CardTitle className="text-base">Score History</CardTitle></CardHeader>
+              <CardContent>
+                <ScoreHistory data={historyData} />
+              </CardContent>
+            </Card>
+          )}
+          {hasSignalHistory && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                  <span>Follower Trend</span>
+                  <span className="flex gap-1">
+                    {growth.map((g) => (
+                      <Badge key={g.platform} variant={g.rate >= 0 ? "secondary" : "destructive"} className="text-xs font-normal">
+                        {g.platform} {g.rate >= 0 ? "+" : ""}{(g.rate * 100).toFixed(1)}%
+                      </Badge>
+                    ))}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SignalHistory signals={chef.publicSignals} />
+                {growth.length > 0 && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Growth over the last {rules.publicSignals.momentumWindowDays} days (or since the first reading) feeds the Momentum line in Public Signals.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
       {/* Accolades */}
       {chef.accolades.length > 0 && (
         <Card>
           <CardHeader><CardTitle className="text-base flex items-center gap-2"><Award className="h-4 w-4" /> Accolades</CardTitle></CardHeader>
           <CardContent>
             <div className="space-y-2">
-              {chef.accolades.map((a) => (
-                <div key={a.id} className="flex items-center justify-between py-1">
-                  <div className="flex items-center gap-2">
-                    <Star className="h-4 w-4 text-yellow-500" />
-                    <span className="font-medium">{accoladeLabel(a.type, a.detail)}</span>
-                    {a.year && <span className="text-sm text-muted-foreground">({a.year})</span>}
+              {chef.accolades.map((a) => {
+                const weight = decayFactor(decay.formalAccolades, ageInYears(a.year, a.createdAt, now), rules);
+                const previous = previousPlacing(chef.accolades, a);
+                const moved = previous ? previous.rank - listRank(a)! : 0;
+                return (
+                  <div key={a.id} className="flex items-center justify-between py-1">
+                    <div className="flex items-center gap-2">
+                      {a.type === "MICHELIN_STAR_LOSS"
+                        ? <TrendingDown className="h-4 w-4 text-red-500" />
+                        : <Star className="h-4 w-4 text-yellow-500" />}
+                      <span className="font-medium">{accoladeLabel(a.type, a.detail)}</span>
+                      {a.restaurant && <span className="text-sm text-muted-foreground">{a.restaurant}</span>}
+                      {a.year && <span className="text-sm text-muted-foreground">({a.year})</span>}
+                      {previous && (
+                        <span
+                          className={`text-xs ${moved > 0 ? "text-green-600" : moved < 0 ? "text-red-600" : "text-muted-foreground"}`}
+                          title={`#${previous.rank} in ${previous.year}`}
+                        >
+                          {moved > 0 ? `▲${moved}` : moved < 0 ? `▼${-moved}` : "="} from #{previous.rank}
+                        </span>
+                      )}
+                      {a.endYear ? (
+                        <Badge variant="outline" className="text-xs text-red-600" title={a.endReason ?? undefined}>
+                          ended {a.endYear}{a.endReason ? ` · ${a.endReason.toLowerCase().replace(/_/g, " ")}` : ""}
+                        </Badge>
+                      ) : weight < 1 && (
+                        <Badge variant="outline" className="text-xs">
+                          {weight === 0 ? "expired" : `counts ${Math.round(weight * 100)}%`}
+                        </Badge>
+                      )}
+                    </div>
+                    {a.sourceUrl && (
+                      <a href={a.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
                   </div>
-                  {a.sourceUrl && (
-                    <a href={a.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
-                      <ExternalLink className="h-3 w-3" />
-                    </a>
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -337,6 +622,48 @@ export default function ChefDetailPage() {
         </Card>
       )}
 
+      {/* Social Handles */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center justify-between">
+            <span className="flex items-center gap-2"><AtSign className="h-4 w-4" /> Social Handles</span>
+            <Button variant="ghost" size="sm" onClick={() => {
+              setHandlesForm(Object.fromEntries(SOCIAL_PLATFORMS.map((p) => [
+                p, chef.socialHandles.find((h) => h.platform === p)?.handle ?? "",
+              ])) as Record<SocialPlatform, string>);
+              setEditingHandles(true);
+            }}>
+              <Pencil className="h-3 w-3 mr-1" /> Edit
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chef.socialHandles.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              {SOCIAL_PLATFORMS.map((platform) => {
+                const h = chef.socialHandles.find((s) => s.platform === platform);
+                if (!h) return null;
+                return (
+                  <div key={platform} className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{SOCIAL_PLATFORM_LABELS[platform]}:</span>
+                    <a href={socialProfileUrl(platform, h.handle)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {formatSocialHandle(platform, h.handle)}
+                    </a>
+                    {h.origin && h.origin !== MANUAL_EDIT && (
+                      <span className="text-xs text-muted-foreground" title={h.sourceUrl ?? undefined}>via {h.origin}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No handles yet. Click Edit to add them, or approve ones the handle discovery collector proposes in <Link href="/review" className="underline">Review</Link>.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Contact Info */}
       <Card>
         <CardHeader>
@@ -489,6 +816,46 @@ export default function ChefDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Social Handles Edit Dialog */}
+      <Dialog open={editingHandles} onOpenChange={setEditingHandles}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Social Handles — {chef.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {SOCIAL_PLATFORMS.map((platform) => (
+              <div key={platform}>
+                <Label>{SOCIAL_PLATFORM_LABELS[platform]}</Label>
+                <Input
+                  value={handlesForm[platform]}
+                  onChange={(e) => setHandlesForm({ ...handlesForm, [platform]: e.target.value })}
+                  placeholder={platform === "WEBSITE" ? "https://example.com" : "@handle or profile URL"}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingHandles(false)}>Cancel</Button>
+            <Button onClick={async () => {
+              const res = await fetch(`/api/chefs/${slug}/social-handles`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ handles: handlesForm }),
+              });
+              if (res.ok) {
+                const updated = await res.json();
+                setChef({ ...chef, socialHandles: updated });
+                setEditingHandles(false);
+                toast.success("Social handles saved");
+              } else {
+                const data = await res.json().catch(() => null);
+                toast.error(data?.error || "Failed to save social handles");
+              }
+            }}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Recent News */}
       {chef.newsItems && chef.newsItems.length > 0 && (
         <Card>
@@ -539,6 +906,59 @@ export default function ChefDetailPage() {
           </CardContent>
         </Card>
       )}
+      {/* Collect Dialog */}
+      <Dialog open={collectOpen} onOpenChange={(open) => { if (!collecting) setCollectOpen(open); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Collect for {chef.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Runs the selected collectors for this chef only, due or not. Leave all unticked to run every enabled collector.
+            Anything found is queued for review.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {collectors.map((c) => (
+              <label key={c.id} className={`flex items-center gap-2 text-sm ${c.settings.enabled ? "" : "text-muted-foreground"}`}>
+                <input
+                  type="checkbox"
+                  disabled={collecting || !c.settings.enabled}
+                  checked={selectedCollectors.includes(c.id)}
+                  onChange={(e) => setSelectedCollectors(e.target.checked
+                    ? [...selectedCollectors, c.id]
+                    : selectedCollectors.filter((id) => id !== c.id))}
+                />
+                {c.name}
+                {!c.settings.enabled && <span className="text-xs">(disabled)</span>}
+              </label>
+            ))}
+          </div>
+          {collectProgress && (
+            <div className="space-y-1">
+              <div className="w-full bg-muted rounded-full h-2 overflow-hidden">
+                <div
+                  className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${collectProgress.total > 0 ? Math.round((collectProgress.current / collectProgress.total) * 100) : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">{collectProgress.message}</p>
+            </div>
+          )}
+          {collectResult && (
+            <p className="text-sm">
+              {collectResult}{" "}
+              <Link href="/review" className="text-primary hover:underline">Open review queue</Link>
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" disabled={collecting} onClick={() => setCollectOpen(false)}>Close</Button>
+            <Button disabled={collecting} onClick={collectForChef}>
+              {collecting ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+              {collecting ? "Collecting..." : "Collect"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Generated Draft Dialog */}
       <Dialog open={showDraftDialog} onOpenChange={setShowDraftDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
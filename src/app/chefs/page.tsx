@@ -103,9 +103,16 @@ export default function ChefsPage() {
                     {chef.accolades.slice(0, 2).map((a, i) => (
                       <Badge key={i} variant="outline" className="text-xs">
                         {a.type === "MICHELIN_STAR" ? `Michelin ${a.detail}` :
+                         a.type === "MICHELIN_GREEN_STAR" ? "Green Star" :
+                         a.type === "MICHELIN_BIB_GOURMAND" ? "Bib Gourmand" :
+                         a.type === "MICHELIN_STAR_LOSS" ? "Lost star" :
                          a.type === "JAMES_BEARD" ? "James Beard" :
                          a.type === "WORLDS_50_BEST" ? "50 Best" :
-                         a.type === "BOCUSE_DOR" ? "Bocuse d'Or" : a.type}
+                         a.type === "ASIAS_50_BEST" ? "Asia 50 Best" :
+                         a.type === "LATIN_AMERICAS_50_BEST" ? "LatAm 50 Best" :
+                         a.type === "BOCUSE_DOR" ? "Bocuse d'Or" :
+                         a.type === "GAULT_MILLAU" ? "Gault&Millau" :
+                         a.type === "LA_LISTE" ? "La Liste" : a.type}
                       </Badge>
                     ))}
                   </div>
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History } from "lucide-react";
+import { describeChange } from "@/lib/utils";
+import type { CollectionRunData, CollectionRunDetail, CollectionRunStatus } from "@/lib/collectors/types";
+import type { ChangeKind, ChangeStatus } from "@/types";
+
+const STATUS_VARIANTS: Record<CollectionRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  SUCCESS: "default",
+  PARTIAL: "secondary",
+  FAILED: "destructive",
+  RUNNING: "outline",
+};
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  accolade: "Accolade",
+  accoladeEnd: "Accolade end",
+  careerEntry: "Career",
+  publicSignal: "Signal",
+  peerStanding: "Peer",
+  socialHandle: "Handle",
+};
+
+const CHANGE_STATUS_VARIANTS: Record<ChangeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  approved: "default",
+  rejected: "destructive",
+};
+
+function formatDuration(run: CollectionRunData): string {
+  if (!run.finishedAt) return "still running";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function Delta({ current, previous }: { current: number; previous: number | undefined }) {
+  if (previous === undefined || previous === current) return null;
+  const diff = current - previous;
+  return <span className={`ml-1 text-xs ${diff > 0 ? "text-green-600" : "text-red-600"}`}>({diff > 0 ? "+" : ""}{diff})</span>;
+}
+
+export default function CollectionRunsPage() {
+  const [runs, setRuns] = useState<CollectionRunData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<CollectionRunDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/collection-runs")
+      .then((r) => r.json())
+      .then((data) => {
+        setRuns(data.runs || []);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  async function open(id: string) {
+    setDetailLoading(true);
+    try {
+      const res = await fetch(`/api/collection-runs/${id}`);
+      if (res.ok) setSelected(await res.json());
+    } finally {
+      setDetailLoading(false);
+    }
+  }
+
+  const failedOutcomes = selected?.outcomes.filter((o) => o.error) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <History className="h-6 w-6" /> Collection Runs
+      </h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-1">
+          {loading ? (
+            Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-14" />)
+          ) : runs.length === 0 ? (
+            <Card><CardContent className="p-8 text-center text-muted-foreground">
+              No collection runs yet. Start one from the Monthly Update page.
+            </CardContent></Card>
+          ) : (
+            runs.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => open(run.id)}
+                className={`w-full rounded-md border px-3 py-2 text-sm text-left transition-colors hover:bg-muted/50 ${
+                  selected?.id === run.id ? "border-primary" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{new Date(run.startedAt).toLocaleString()}</span>
+                  <Badge variant={STATUS_VARIANTS[run.status]} className="text-xs">{run.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {run.logs.length} collector{run.logs.length === 1 ? "" : "s"} ·{" "}
+                  {run.chef ? run.chef.name : `${run.chefsProcessed} chefs`} · {run.queued} queued
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {detailLoading ? (
+            <Skeleton className="h-96" />
+          ) : !selected ? (
+            <Card><CardContent className="p-12 text-center text-muted-foreground">
+              Select a run to see what it found and changed.
+            </CardContent></Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center justify-between">
+                    <span>Run {selected.id.slice(0, 8)}</span>
+                    <Badge variant={STATUS_VARIANTS[selected.status]}>{selected.status}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  <p className="text-muted-foreground">
+                    Started {new Date(selected.startedAt).toLocaleString()} · {formatDuration(selected)} ·{" "}
+                    {selected.collectorIds ? `requested: ${selected.collectorIds.join(", ")}` : selected.chef ? "all enabled collectors" : "scheduled collectors"}
+                    {selected.chef && (
+                      <> · for <Link href={`/chefs/${selected.chef.slug}`} className="hover:underline">{selected.chef.name}</Link></>
+                    )}
+                  </p>
+                  {selected.error && <p className="text-red-600">{selected.error}</p>}
+
+                  <div className="divide-y">
+                    <div className="grid grid-cols-5 gap-2 pb-1 text-xs text-muted-foreground">
+                      <span className="col-span-2">Collector</span>
+                      <span className="text-right">Found</span>
+                      <span className="text-right">Queued</span>
+                      <span className="text-right">Chef errors</span>
+                    </div>
+                    {selected.collectors.map((c) => {
+                      const log = selected.logs.find((l) => (l.collectorId ?? l.source) === c.collectorId);
+                      return (
+                        <div key={c.collectorId} className="grid grid-cols-5 gap-2 py-1.5">
+                          <div className="col-span-2 min-w-0">
+                            <span className="font-medium">{c.source}</span>
+                            {log && log.status !== "SUCCESS" && (
+                              <Badge variant="destructive" className="ml-2 text-xs">{log.status}</Badge>
+                            )}
+                            {log?.errors.map((e, i) => <p key={i} className="text-xs text-red-600 truncate">{e}</p>)}
+                          </div>
+                          <span className="text-right font-mono">{c.found}<Delta current={c.found} previous={c.previous?.found} /></span>
+                          <span className="text-right font-mono">{c.queued}<Delta current={c.queued} previous={c.previous?.queued} /></span>
+                          <span className="text-right font-mono">{c.errors}<Delta current={c.errors} previous={c.previous?.errors} /></span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Bracketed numbers compare with the previous run of the same collector.</p>
+
+                  {selected.skipped.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Skipped: {selected.skipped.map((s) => `${s.source} (${s.reason})`).join(", ")}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader><CardTitle className="text-base">Changes ({selected.changes.length})</CardTitle></CardHeader>
+                <CardContent>
+                  {selected.changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">This run found nothing new.</p>
+                  ) : (
+                    <div className="divide-y text-sm">
+                      {selected.changes.map((change) => (
+                        <div key={change.id} className="flex items-center justify-between gap-4 py-1.5">
+                          <div className="min-w-0 flex items-center gap-2">
+                            {change.kind === "accoladeEnd" ? (
+                              <span className="font-mono text-red-600">−</span>
+                            ) : (
+                              <span className="font-mono text-green-600">{change.kind === "publicSignal" ? "~" : "+"}</span>
+                            )}
+                            <Badge variant="outline" className="text-xs">{KIND_LABELS[change.kind]}</Badge>
+                            <Link href={`/chefs/${change.chef.slug}`} className="font-medium hover:underline shrink-0">{change.chef.name}</Link>
+                            <span className="truncate text-muted-foreground">{describeChange(change)}</span>
+                          </div>
+                          <Badge variant={CHANGE_STATUS_VARIANTS[change.status]} className="text-xs shrink-0">{change.status}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader><CardTitle className="text-base">Per-chef Outcomes</CardTitle></CardHeader>
+                <CardContent>
+                  {selected.outcomes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No chef returned records or errors.</p>
+                  ) : (
+                    <div className="divide-y text-sm">
+                      <div className="grid grid-cols-6 gap-2 pb-1 text-xs text-muted-foreground">
+                        <span className="col-span-2">Chef</span>
+                        <span>Collector</span>
+                        <span className="text-right">Found</span>
+                        <span className="text-right">New</span>
+                        <span className="text-right">Duplicates</span>
+                      </div>
+                      {selected.outcomes.map((o) => (
+                        <div key={`${o.collectorId}-${o.chef.id}`} className="grid grid-cols-6 gap-2 py-1.5">
+                          <Link href={`/chefs/${o.chef.slug}`} className="col-span-2 font-medium hover:underline truncate">{o.chef.name}</Link>
+                          <span className="text-muted-foreground truncate">{o.collectorId}</span>
+                          <span className="text-right font-mono">{o.found}</span>
+                          <span className="text-right font-mono">{o.queued}</span>
+                          <span className="text-right font-mono">{o.duplicates}</span>
+                          {o.error && <p className="col-span-6 text-xs text-red-600">{o.error}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {failedOutcomes.length > 0 && (
+                    <p className="mt-2 text-xs text-muted-foreground">{failedOutcomes.length} chef{failedOutcomes.length === 1 ? "" : "s"} hit an error.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScoreRadar } from "@/components/charts/score-radar";
+import { ScoreInterval } from "@/components/charts/score-interval";
 import { formatScore } from "@/lib/utils";
-import type { ScoreBreakdown } from "@/types";
+import type { ScoreBreakdown, ScoreUncertainty } from "@/types";
 import { GitCompare, X, Search, Plus } from "lucide-react";
 
 interface ChefOption {
@@ -26,6 +27,7 @@ interface CompareResult {
   };
   breakdown: ScoreBreakdown;
   totalScore: number;
+  uncertainty: ScoreUncertainty;
 }
 
 export default function ComparePage() {
@@ -61,6 +63,7 @@ export default function ComparePage() {
   const LABELS: Record<string, string> = {
     formalAccolades: "Formal Accolades",
     careerTrack: "Career Track",
+    industryRecognition: "Industry Recognition",
     publicSignals: "Public Signals",
     peerStanding: "Peer Standing",
   };
@@ -148,6 +151,17 @@ export default function ComparePage() {
             </CardContent>
           </Card>
 
+          {/* Total Score with uncertainty */}
+          <Card>
+            <CardHeader><CardTitle className="text-base">Total Score with Confidence Band</CardTitle></CardHeader>
+            <CardContent>
+              <ScoreInterval data={results.map((r) => ({ name: r.chef.name, totalScore: r.totalScore, uncertainty: r.uncertainty }))} />
+              <p className="text-xs text-muted-foreground mt-2">
+                Error bars widen for chefs with incomplete profiles or unsourced records.
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Comparison Table */}
           <Card>
             <CardHeader><CardTitle className="text-base">Detailed Comparison</CardTitle></CardHeader>
@@ -179,7 +193,10 @@ export default function ComparePage() {
                   <tr className="font-bold">
                     <td className="py-2 pr-4">Total Score</td>
                     {results.map((r) => (
-                      <td key={r.chef.id} className="text-right py-2 px-2">{formatScore(r.totalScore)}</td>
+                      <td key={r.chef.id} className="text-right py-2 px-2">
+                        {formatScore(r.totalScore)}
+                        <span className="block text-xs font-normal text-muted-foreground">±{r.uncertainty.margin.toFixed(1)}</span>
+                      </td>
                     ))}
                   </tr>
                 </tbody>
@@ -136,7 +136,14 @@ const CONNECTOR_CHECKS: CheckDef[] = [
   { id: "connector_michelin", label: "Michelin Guide", description: "Ping guide.michelin.com search endpoint", category: "connectors" },
   { id: "connector_james_beard", label: "James Beard Awards", description: "Ping jamesbeard.org awards search", category: "connectors" },
   { id: "connector_worlds_50_best", label: "World's 50 Best", description: "Ping theworlds50best.com list page", category: "connectors" },
+  { id: "connector_bocuse_dor", label: "Bocuse d'Or", description: "Ping bocusedor.com winners page", category: "connectors" },
+  { id: "connector_gault_millau", label: "Gault&Millau", description: "Ping gaultmillau.com restaurant search", category: "connectors" },
+  { id: "connector_la_liste", label: "La Liste", description: "Ping laliste.com restaurant search", category: "connectors" },
   { id: "connector_instagram", label: "Instagram", description: "Test public profile scraping (~50% failure expected)", category: "connectors" },
+  { id: "connector_youtube", label: "YouTube", description: "Test channel page subscriber extraction", category: "connectors" },
+  { id: "connector_tiktok", label: "TikTok", description: "Test public profile scraping (challenge pages expected)", category: "connectors" },
+  { id: "connector_open_library", label: "Open Library", description: "Ping openlibrary.org author search", category: "connectors" },
+  { id: "connector_wikidata", label: "Wikidata", description: "Ping the Wikidata search used for handle discovery", category: "connectors" },
   { id: "connector_news_ai", label: "News AI Extractor", description: "Check Anthropic API key and unprocessed queue", category: "connectors" },
 ];
 
@@ -538,7 +545,14 @@ function CheckResult({ checkId, result, isE2e }: { checkId: string; result: Reco
     case "connector_michelin":
     case "connector_james_beard":
     case "connector_worlds_50_best":
+    case "connector_bocuse_dor":
+    case "connector_gault_millau":
+    case "connector_la_liste":
     case "connector_instagram":
+    case "connector_youtube":
+    case "connector_tiktok":
+    case "connector_open_library":
+    case "connector_wikidata":
     case "connector_news_ai": {
       const d = data as {
         status: string;
@@ -552,16 +566,23 @@ function CheckResult({ checkId, result, isE2e }: { checkId: string; result: Reco
         hasSearchForm?: boolean;
         hasListItems?: boolean;
         existingInstagramSignals?: number;
+        existingSignals?: number;
+        signalLabel?: string;
+        existingHandles?: number;
         unprocessedItems?: number;
         processedItems?: number;
         lastProcessed?: string | null;
+        selectorsBroken?: boolean;
+        probeItems?: number;
+        lastRunParse?: { runId: string; startedAt: string; pagesLoaded: number; emptyPages: number; itemsParsed: number } | null;
+        selectorNote?: string;
       };
       const statusColor = d.status === "reachable" ? "text-green-600" : d.status === "degraded" ? "text-yellow-600" : "text-red-600";
       return (
         <div className="space-y-0.5">
           <p className={statusColor}>
             {d.status === "reachable" ? <CheckCircle2 className="h-3 w-3 inline mr-1" /> : d.status === "degraded" ? <AlertTriangle className="h-3 w-3 inline mr-1" /> : <XCircle className="h-3 w-3 inline mr-1" />}
-            {d.status.charAt(0).toUpperCase() + d.status.slice(1)}
+            {d.status.charAt(0).toUpperCase() + d.status.slice(1).replace(/_/g, " ")}
             {d.httpStatus != null && ` (HTTP ${d.httpStatus})`}
             {d.responseTimeMs != null && ` — ${d.responseTimeMs}ms`}
           </p>
@@ -572,7 +593,21 @@ function CheckResult({ checkId, result, isE2e }: { checkId: string; result: Reco
           {d.canExtractFollowers != null && (
             <p className="text-xs">{d.canExtractFollowers ? <CheckCircle2 className="h-3 w-3 text-green-500 inline mr-1" /> : <AlertTriangle className="h-3 w-3 text-yellow-500 inline mr-1" />}Follower extraction {d.canExtractFollowers ? "working" : "blocked this session"}</p>
           )}
+          {d.selectorsBroken != null && (
+            <p className="text-xs">
+              {d.selectorsBroken ? <XCircle className="h-3 w-3 text-red-500 inline mr-1" /> : <CheckCircle2 className="h-3 w-3 text-green-500 inline mr-1" />}
+              Selectors matched {d.probeItems} item{d.probeItems === 1 ? "" : "s"} on the probe page
+            </p>
+          )}
+          {d.lastRunParse && (
+            <p className="text-xs text-muted-foreground">
+              Last run ({formatTimeAgo(d.lastRunParse.startedAt)}): {d.lastRunParse.itemsParsed} items from {d.lastRunParse.pagesLoaded} pages, {d.lastRunParse.emptyPages} empty
+            </p>
+          )}
+          {d.selectorNote && <p className="text-xs text-red-600">{d.selectorNote}</p>}
           {d.existingInstagramSignals != null && <p className="text-xs text-muted-foreground">{d.existingInstagramSignals} existing Instagram signals</p>}
+          {d.existingSignals != null && <p className="text-xs text-muted-foreground">{d.existingSignals} existing {d.signalLabel} signals</p>}
+          {d.existingHandles != null && <p className="text-xs text-muted-foreground">{d.existingHandles} managed social handles</p>}
           {d.unprocessedItems != null && <p className="text-xs text-muted-foreground">{d.unprocessedItems} unprocessed / {d.processedItems} processed</p>}
           {d.lastProcessed && <p className="text-xs text-muted-foreground">Last processed: {formatTimeAgo(d.lastProcessed)}</p>}
           {d.note && <p className="text-xs text-yellow-600">{d.note}</p>}
@@ -43,6 +43,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { ScoreRange } from "@/components/charts/score-interval";
 import type { RankingEntry } from "@/types";
 import { formatScore, getCurrentMonth } from "@/lib/utils";
 
@@ -543,6 +544,11 @@ export default function HomePage() {
                       </TableCell>
                       <TableCell className="text-right font-mono text-sm font-semibold">
                         {formatScore(entry.totalScore)}
+                        {entry.uncertainty && (
+                          <div className="flex justify-end mt-1">
+                            <ScoreRange score={entry.totalScore} uncertainty={entry.uncertainty} />
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-center">
                         {renderDelta(entry.delta)}
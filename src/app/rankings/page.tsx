@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListOrdered } from "lucide-react";
+import type { SubRankingDimension, SubRankingEntry, SubRankingGroup } from "@/lib/sub-rankings";
+
+const DIMENSION_LABELS: Record<SubRankingDimension, string> = {
+  country: "Country",
+  city: "City",
+  cuisine: "Cuisine",
+  category: "Score Category",
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  formalAccolades: "Formal Accolades",
+  careerTrack: "Career Track",
+  industryRecognition: "Industry Recognition",
+  publicSignals: "Public Signals",
+  peerStanding: "Peer Standing",
+};
+
+const LIVE = "live";
+
+function groupLabel(group: { dimension: SubRankingDimension; key: string }) {
+  return group.dimension === "category" ? CATEGORY_LABELS[group.key] ?? group.key : group.key;
+}
+
+export default function SubRankingsPage() {
+  const [groups, setGroups] = useState<SubRankingGroup[]>([]);
+  const [months, setMonths] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dimension, setDimension] = useState<SubRankingDimension>("country");
+  const [selected, setSelected] = useState<SubRankingGroup | null>(null);
+  const [month, setMonth] = useState(LIVE);
+  const [entries, setEntries] = useState<SubRankingEntry[] | null>(null);
+  const [entriesLoading, setEntriesLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/rankings/sub").then((r) => r.json()),
+      fetch("/api/snapshots").then((r) => r.json()),
+    ])
+      .then(([sub, snapshots]) => {
+        setGroups(sub.groups ?? []);
+        setMonths((snapshots as { month: string }[]).map((s) => s.month));
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  async function load(group: SubRankingGroup, forMonth: string) {
+    setSelected(group);
+    setEntriesLoading(true);
+    setError(null);
+    const query = `dimension=${group.dimension}&key=${encodeURIComponent(group.key)}`;
+    const url = forMonth === LIVE ? `/api/rankings/sub?${query}` : `/api/rankings/${forMonth}/sub?${query}`;
+    try {
+      const res = await fetch(url);
+      const data = await res.json();
+      if (!res.ok) {
+        setEntries(null);
+        setError(data.error || "Failed to load sub-ranking");
+      } else {
+        setEntries(data.entries);
+      }
+    } finally {
+      setEntriesLoading(false);
+    }
+  }
+
+  function changeMonth(value: string) {
+    setMonth(value);
+    if (selected) load(selected, value);
+  }
+
+  const visible = groups.filter((g) => g.dimension === dimension);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <ListOrdered className="h-6 w-6" /> Sub-rankings
+        </h1>
+        <Select value={month} onValueChange={changeMonth}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LIVE}>Live scores</SelectItem>
+            {months.map((m) => (
+              <SelectItem key={m} value={m}>Snapshot {m}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs value={dimension} onValueChange={(v) => setDimension(v as SubRankingDimension)}>
+        <TabsList>
+          {(Object.keys(DIMENSION_LABELS) as SubRankingDimension[]).map((d) => (
+            <TabsTrigger key={d} value={d}>{DIMENSION_LABELS[d]}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-1">
+          {loading ? (
+            Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-10" />)
+          ) : visible.length === 0 ? (
+            <Card><CardContent className="p-8 text-center text-muted-foreground">
+              No chefs have data for this dimension yet.
+            </CardContent></Card>
+          ) : (
+            visible.map((group) => (
+              <button
+                key={group.key}
+                onClick={() => load(group, month)}
+                className={`w-full flex items-center justify-between rounded-md border px-3 py-2 text-sm text-left transition-colors hover:bg-muted/50 ${
+                  selected?.dimension === group.dimension && selected.key === group.key ? "border-primary" : ""
+                }`}
+              >
+                <span className="font-medium">{groupLabel(group)}</span>
+                <span className="text-xs text-muted-foreground">{group.count} chefs</span>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {entriesLoading ? (
+            <Skeleton className="h-96" />
+          ) : selected && error ? (
+            <Card><CardContent className="p-12 text-center text-muted-foreground">{error}</CardContent></Card>
+          ) : selected && entries ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {groupLabel(selected)}
+                  <span className="text-muted-foreground font-normal ml-2 text-sm">
+                    {month === LIVE ? "live scores" : `snapshot ${month}`}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {entries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No chefs in this sub-ranking for this snapshot.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {entries.map((entry) => (
+                      <div key={entry.chef.slug} className="flex items-center justify-between py-2 border-b last:border-0 text-sm">
+                        <div className="flex items-center gap-3">
+                          <span className="w-8 text-right font-mono text-muted-foreground">{entry.rank}</span>
+                          <div>
+                            <Link href={`/chefs/${entry.chef.slug}`} className="font-medium hover:underline">
+                              {entry.chef.name}
+                            </Link>
+                            {entry.chef.currentRestaurant && (
+                              <span className="text-muted-foreground ml-2 text-xs">{entry.chef.currentRestaurant}</span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {entry.delta !== null && entry.delta !== 0 && (
+                            <Badge variant={entry.delta > 0 ? "default" : "destructive"} className="text-xs">
+                              {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                            </Badge>
+                          )}
+                          <span className="font-mono w-12 text-right">{entry.score.toFixed(1)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card><CardContent className="p-12 text-center text-muted-foreground">
+              Select a {DIMENSION_LABELS[dimension].toLowerCase()} to view its ranking.
+            </CardContent></Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { Check, ClipboardCheck, Pencil, X } from "lucide-react";
+import { describeChange } from "@/lib/utils";
+import { CHANGE_FIELDS, type ChangeKind, type ChangeStatus, type PendingChangeData } from "@/types";
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  accolade: "Accolade",
+  accoladeEnd: "Accolade end",
+  careerEntry: "Career",
+  publicSignal: "Signal",
+  peerStanding: "Peer",
+  socialHandle: "Handle",
+};
+
+const ALL_SOURCES = "all";
+
+export default function ReviewPage() {
+  const [status, setStatus] = useState<ChangeStatus>("pending");
+  const [source, setSource] = useState(ALL_SOURCES);
+  const [changes, setChanges] = useState<PendingChangeData[]>([]);
+  const [pendingBySource, setPendingBySource] = useState<{ source: string; count: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState<PendingChangeData | null>(null);
+  const [editForm, setEditForm] = useState<Record<string, string | boolean>>({});
+
+  const load = useCallback(async (forStatus: ChangeStatus, forSource: string) => {
+    const params = new URLSearchParams({ status: forStatus });
+    if (forSource !== ALL_SOURCES) params.set("source", forSource);
+    const res = await fetch(`/api/review?${params}`);
+    const data = await res.json();
+    setChanges(data.changes || []);
+    setPendingBySource(data.pendingBySource || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load("pending", ALL_SOURCES).catch(() => setLoading(false));
+  }, [load]);
+
+  function changeView(nextStatus: ChangeStatus, nextSource: string) {
+    setStatus(nextStatus);
+    setSource(nextSource);
+    setLoading(true);
+    load(nextStatus, nextSource).catch(() => setLoading(false));
+  }
+
+  async function review(action: "approve" | "reject", selection: { ids?: string[]; source?: string }) {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/review/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(selection),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed to ${action}`);
+      const count = action === "approve" ? data.approved : data.rejected;
+      toast.success(`${count} change${count === 1 ? "" : "s"} ${action === "approve" ? "approved" : "rejected"}.`);
+      await load(status, source);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function openEdit(change: PendingChangeData) {
+    setEditing(change);
+    setEditForm(Object.fromEntries(
+      Object.entries(change.payload).map(([k, v]) => [k, typeof v === "boolean" ? v : v == null ? "" : String(v)])
+    ));
+  }
+
+  async function saveEdit() {
+    if (!editing) return;
+    const fields = CHANGE_FIELDS[editing.kind];
+    const payload = Object.fromEntries(Object.entries(editForm).map(([k, v]) => {
+      if (typeof v === "boolean" || v === "") return [k, v === "" ? null : v];
+      return [k, fields[k]?.type === "int" || fields[k]?.type === "number" ? Number(v) : v];
+    }));
+    const res = await fetch(`/api/review/${editing.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ payload }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      toast.error(data.error || "Failed to save edit");
+      return;
+    }
+    setChanges((prev) => prev.map((c) => (c.id === data.id ? { ...c, payload: data.payload } : c)));
+    setEditing(null);
+    toast.success("Change updated");
+  }
+
+  const pendingTotal = pendingBySource.reduce((sum, s) => sum + s.count, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <ClipboardCheck className="h-6 w-6" /> Review Queue
+        </h1>
+        <Tabs value={status} onValueChange={(v) => changeView(v as ChangeStatus, source)}>
+          <TabsList>
+            <TabsTrigger value="pending">Pending ({pendingTotal})</TabsTrigger>
+            <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Collected records wait here until approved. Approved records count towards scores after the next recalculation.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader><CardTitle className="text-base">Sources</CardTitle></CardHeader>
+          <CardContent className="space-y-1">
+            <button
+              onClick={() => changeView(status, ALL_SOURCES)}
+              className={`w-full flex justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 ${source === ALL_SOURCES ? "bg-muted" : ""}`}
+            >
+              <span>All sources</span>
+              <span className="text-muted-foreground">{pendingTotal}</span>
+            </button>
+            {pendingBySource.map((s) => (
+              <div key={s.source} className="space-y-1">
+                <button
+                  onClick={() => changeView(status, s.source)}
+                  className={`w-full flex justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 ${source === s.source ? "bg-muted" : ""}`}
+                >
+                  <span className="truncate">{s.source}</span>
+                  <span className="text-muted-foreground">{s.count}</span>
+                </button>
+                {source === s.source && status === "pending" && (
+                  <div className="flex gap-1 px-2">
+                    <Button size="sm" className="h-7 flex-1 text-xs" disabled={busy} onClick={() => review("approve", { source: s.source })}>
+                      <Check className="h-3 w-3 mr-1" /> Approve all
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 flex-1 text-xs" disabled={busy} onClick={() => review("reject", { source: s.source })}>
+                      <X className="h-3 w-3 mr-1" /> Reject all
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3 space-y-2">
+          {loading ? (
+            Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-16" />)
+          ) : changes.length === 0 ? (
+            <Card><CardContent className="p-12 text-center text-muted-foreground">
+              {status === "pending" ? "Nothing waiting for review." : `No ${status} changes.`}
+            </CardContent></Card>
+          ) : (
+            changes.map((change) => (
+              <Card key={change.id}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">{KIND_LABELS[change.kind]}</Badge>
+                      <Link href={`/chefs/${change.chef.slug}`} className="font-medium hover:underline">{change.chef.name}</Link>
+                    </div>
+                    <p className="text-sm truncate">{describeChange(change)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {change.source} · {new Date(change.createdAt).toLocaleDateString()}
+                      {typeof change.payload.sourceUrl === "string" && (
+                        <> · <a href={change.payload.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">source</a></>
+                      )}
+                      {change.reviewNote && <> · {change.reviewNote}</>}
+                    </p>
+                  </div>
+                  {change.status === "pending" && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="sm" variant="ghost" className="h-8" disabled={busy} onClick={() => openEdit(change)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-8" disabled={busy} onClick={() => review("reject", { ids: [change.id] })}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" className="h-8" disabled={busy} onClick={() => review("approve", { ids: [change.id] })}>
+                        <Check className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit {editing ? KIND_LABELS[editing.kind].toLowerCase() : ""} — {editing?.chef.name}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-3">
+              {Object.entries(CHANGE_FIELDS[editing.kind]).map(([field, { type, required }]) => (
+                <div key={field}>
+                  {type === "boolean" ? (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={editForm[field] === true}
+                        onChange={(e) => setEditForm({ ...editForm, [field]: e.target.checked })}
+                      />
+                      {field}
+                    </label>
+                  ) : (
+                    <>
+                      <Label>{field}{required ? " *" : ""}</Label>
+                      <Input
+                        type={type === "string" ? "text" : "number"}
+                        value={(editForm[field] as string) ?? ""}
+                        onChange={(e) => setEditForm({ ...editForm, [field]: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveEdit}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { FlaskConical, Play, RotateCcw, ChevronUp, ChevronDown, Minus, Loader2, History } from "lucide-react";
+import { formatScore } from "@/lib/utils";
+import type { ScoreBreakdown, ScoringWeights } from "@/types";
+
+const WEIGHT_LABELS: Record<string, string> = {
+  formalAccolades: "Formal Accolades",
+  careerTrack: "Career Track Record",
+  industryRecognition: "Industry Recognition",
+  publicSignals: "Public Signals",
+  peerStanding: "Peer Standing",
+};
+
+const OVERRIDES_PLACEHOLDER = `{
+  "formalAccolades": { "accoladePoints": { "JAMES_BEARD": 60 } },
+  "publicSignals": { "followerDivisor": 50000 }
+}`;
+
+interface SimulationEntry {
+  rank: number;
+  liveRank: number | null;
+  delta: number | null;
+  totalScore: number;
+  liveScore: number;
+  breakdown: ScoreBreakdown;
+  chef: { id: string; name: string; slug: string; currentRestaurant: string | null };
+}
+
+interface SimulationResult {
+  baseRuleSetVersion: number | null;
+  entries: SimulationEntry[];
+  movedCount: number;
+}
+
+interface BacktestReport {
+  months: {
+    month: string;
+    historicalRuleSetVersion: number | null;
+    chefCount: number;
+    movedCount: number;
+    meanAbsDelta: number;
+  }[];
+  chefs: {
+    chef: { id: string; name: string; slug: string };
+    monthsCompared: number;
+    meanDelta: number;
+    largestMove: { month: string; delta: number };
+  }[];
+}
+
+function renderDelta(delta: number | null) {
+  if (delta === null || delta === 0) {
+    return <span className="flex items-center gap-1 text-muted-foreground"><Minus className="h-3.5 w-3.5" /></span>;
+  }
+  if (delta > 0) {
+    return (
+      <span className="flex items-center gap-1 text-emerald-600">
+        <ChevronUp className="h-3.5 w-3.5" />
+        <span className="text-xs font-medium">+{delta}</span>
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-red-500">
+      <ChevronDown className="h-3.5 w-3.5" />
+      <span className="text-xs font-medium">{delta}</span>
+    </span>
+  );
+}
+
+export default function SandboxPage() {
+  const [liveWeights, setLiveWeights] = useState<ScoringWeights | null>(null);
+  const [weights, setWeights] = useState<ScoringWeights | null>(null);
+  const [overrides, setOverrides] = useState("");
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null);
+  const [backtesting, setBacktesting] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/scoring")
+      .then((r) => r.json())
+      .then((w) => { setLiveWeights(w); setWeights(w); })
+      .catch(() => toast.error("Failed to load live weights"));
+  }, []);
+
+  // The simulation and the backtest take the same model; null if the JSON is invalid
+  function modelBody(): string | null {
+    let ruleOverrides: unknown;
+    if (overrides.trim()) {
+      try {
+        ruleOverrides = JSON.parse(overrides);
+      } catch {
+        toast.error("Rule overrides must be valid JSON");
+        return null;
+      }
+    }
+    return JSON.stringify({ weights, ruleOverrides });
+  }
+
+  async function runSimulation() {
+    if (!weights) return;
+    const body = modelBody();
+    if (!body) return;
+
+    setRunning(true);
+    try {
+      const res = await fetch("/api/scoring/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Simulation failed");
+      setResult(data);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function runBacktest() {
+    if (!weights) return;
+    const body = modelBody();
+    if (!body) return;
+
+    setBacktesting(true);
+    try {
+      const res = await fetch("/api/scoring/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Backtest failed");
+      setBacktest(data);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBacktesting(false);
+    }
+  }
+
+  const totalWeight = weights ? Object.values(weights).reduce((sum, v) => sum + v, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FlaskConical className="h-6 w-6" /> Scoring Sandbox
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Try hypothetical weights and rule changes against the live ranking. Nothing here is saved.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Weights
+                <Button variant="outline" size="sm" disabled={!liveWeights} onClick={() => setWeights(liveWeights)}>
+                  <RotateCcw className="h-3 w-3 mr-1" /> Live
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {!weights ? (
+                <Skeleton className="h-48" />
+              ) : (
+                <>
+                  {Object.entries(WEIGHT_LABELS).map(([key, label]) => (
+                    <div key={key} className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label>{label}</Label>
+                        <span className="font-mono text-muted-foreground">
+                          {(weights[key as keyof ScoringWeights] * 100).toFixed(0)}%
+                        </span>
+                      </div>
+                      <Slider
+                        value={[weights[key as keyof ScoringWeights] * 100]}
+                        onValueChange={([v]) => setWeights({ ...weights, [key]: v / 100 })}
+                        max={50}
+                        step={1}
+                      />
+                    </div>
+                  ))}
+                  <Separator />
+                  <div className="flex justify-between text-sm font-medium">
+                    <span>Total</span>
+                    <span className={totalWeight > 1.01 || totalWeight < 0.99 ? "text-destructive" : "text-green-600"}>
+                      {(totalWeight * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle className="text-base">Rule Overrides</CardTitle></CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={overrides}
+                onChange={(e) => setOverrides(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+                placeholder={OVERRIDES_PLACEHOLDER}
+              />
+              <p className="text-xs text-muted-foreground">
+                Partial JSON layered onto the active rule set. See Settings → Scoring Rules for every field.
+              </p>
+              <Button className="w-full" disabled={running || !weights} onClick={runSimulation}>
+                {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                {running ? "Simulating..." : "Run Simulation"}
+              </Button>
+              <Button variant="outline" className="w-full" disabled={backtesting || !weights} onClick={runBacktest}>
+                {backtesting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <History className="h-4 w-4 mr-1" />}
+                {backtesting ? "Replaying history..." : "Backtest Against Snapshots"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {backtest && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <History className="h-4 w-4" /> Backtest
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {backtest.months.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No published snapshots to replay yet.</p>
+                ) : (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Each snapshot month re-scored with this model using only the records that existed at the time.
+                    </p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Month</TableHead>
+                          <TableHead className="text-right">Chefs moved</TableHead>
+                          <TableHead className="text-right">Mean |Δ rank|</TableHead>
+                          <TableHead className="text-right">Published with</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {backtest.months.map((m) => (
+                          <TableRow key={m.month}>
+                            <TableCell className="font-mono">{m.month}</TableCell>
+                            <TableCell className="text-right">{m.movedCount} / {m.chefCount}</TableCell>
+                            <TableCell className="text-right font-mono">{m.meanAbsDelta}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {m.historicalRuleSetVersion != null ? `rules v${m.historicalRuleSetVersion}` : "unknown"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    <Separator />
+                    <p className="text-sm font-medium">Biggest average movers</p>
+                    <div className="space-y-1.5">
+                      {backtest.chefs.filter((c) => c.meanDelta !== 0).slice(0, 10).map((c) => (
+                        <div key={c.chef.id} className="flex items-center justify-between text-sm">
+                          <Link href={`/chefs/${c.chef.slug}`} className="hover:underline">{c.chef.name}</Link>
+                          <div className="flex items-center gap-3">
+                            <span className="text-xs text-muted-foreground">
+                              largest {c.largestMove.delta > 0 ? "+" : ""}{c.largestMove.delta} in {c.largestMove.month}
+                            </span>
+                            {renderDelta(c.meanDelta)}
+                          </div>
+                        </div>
+                      ))}
+                      {backtest.chefs.every((c) => c.meanDelta === 0) && (
+                        <p className="text-sm text-muted-foreground">No chef would have ranked differently.</p>
+                      )}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {result ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                  <span>Simulated Leaderboard</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {result.movedCount} of {result.entries.length} chefs move
+                    {result.baseRuleSetVersion != null && <> · based on rules v{result.baseRuleSetVersion}</>}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Chef</TableHead>
+                      <TableHead className="text-right">Live</TableHead>
+                      <TableHead className="text-right">Simulated</TableHead>
+                      <TableHead className="w-20">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.entries.map((entry) => (
+                      <TableRow key={entry.chef.id}>
+                        <TableCell className="font-mono text-muted-foreground">{entry.rank}</TableCell>
+                        <TableCell>
+                          <Link href={`/chefs/${entry.chef.slug}`} className="font-medium hover:underline">
+                            {entry.chef.name}
+                          </Link>
+                          {entry.chef.currentRestaurant && (
+                            <span className="text-muted-foreground ml-2 text-xs">{entry.chef.currentRestaurant}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">
+                          {formatScore(entry.liveScore)}
+                          {entry.liveRank != null && <span className="text-xs ml-1">(#{entry.liveRank})</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatScore(entry.totalScore)}</TableCell>
+                        <TableCell>{renderDelta(entry.delta)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card><CardContent className="p-12 text-center text-muted-foreground">
+              <FlaskConical className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>Adjust weights or rules and run a simulation to compare against the live ranking.</p>
+            </CardContent></Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
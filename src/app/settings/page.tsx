@@ -17,20 +17,42 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Settings, Save, Download, Upload, RotateCcw, User, Sparkles, Mail, Send, Trash2 } from "lucide-react";
-import { DEFAULT_WEIGHTS, type ScoringWeights } from "@/types";
+import { Settings, Save, Download, Upload, RotateCcw, User, Sparkles, Mail, Send, Trash2, Scale } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CollectorSettings } from "@/components/settings/collector-settings";
+import {
+  DECAY_CURVES,
+  DEFAULT_DECAY,
+  DEFAULT_WEIGHTS,
+  type DecayCurve,
+  type ScoringDecay,
+  type ScoringRuleSetData,
+  type ScoringWeights,
+} from "@/types";
+
+const DECAY_LABELS: Record<DecayCurve, string> = {
+  step: "Step cutoff",
+  linear: "Linear fade",
+  exponential: "Half-life",
+};
 
 const WEIGHT_LABELS: Record<string, string> = {
   formalAccolades: "Formal Accolades",
   careerTrack: "Career Track Record",
+  industryRecognition: "Industry Recognition",
   publicSignals: "Public Signals",
   peerStanding: "Peer Standing",
 };
 
 export default function SettingsPage() {
   const [weights, setWeights] = useState<ScoringWeights | null>(null);
+  const [decay, setDecay] = useState<ScoringDecay>(DEFAULT_DECAY);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [ruleSets, setRuleSets] = useState<ScoringRuleSetData[]>([]);
+  const [rulesDraft, setRulesDraft] = useState("");
+  const [rulesName, setRulesName] = useState("");
+  const [savingRules, setSavingRules] = useState(false);
   const [sender, setSender] = useState({ name: "", title: "", company: "", email: "" });
   const [savingSender, setSavingSender] = useState(false);
   const [outreach, setOutreach] = useState({ purpose: "", tone: "warm", maxWords: 150 });
@@ -59,8 +81,13 @@ export default function SettingsPage() {
       fetch("/api/digest/settings").then((r) => r.json()),
       fetch("/api/digest/subscribers").then((r) => r.json()),
       fetch("/api/digest/history").then((r) => r.json()),
-    ]).then(([w, s, snd, os, ds, subs, hist]) => {
+      fetch("/api/scoring/rules").then((r) => r.json()),
+      fetch("/api/scoring/decay").then((r) => r.json()),
+    ]).then(([w, s, snd, os, ds, subs, hist, rs, dc]) => {
       setWeights(w);
+      setDecay(dc);
+      setRuleSets(rs.ruleSets || []);
+      setRulesDraft(rs.active ? JSON.stringify(rs.active.rules, null, 2) : "");
       setStats(s);
       setSender({ name: snd.name || "", title: snd.title || "", company: snd.company || "", email: snd.email || "" });
       setOutreach({ purpose: os.purpose || "", tone: os.tone || "warm", maxWords: os.maxWords || 150 });
@@ -82,22 +109,77 @@ export default function SettingsPage() {
     if (!weights) return;
     setSaving(true);
     try {
-      await fetch("/api/scoring", {
+      const res = await fetch("/api/scoring", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(weights),
+        body: JSON.stringify({ ...weights, decay }),
       });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save weights");
       toast.success("Weights saved and scores recalculated.");
-    } catch {
-      toast.error("Failed to save weights");
+    } catch (err) {
+      toast.error((err as Error).message);
     } finally {
       setSaving(false);
     }
   }
 
+  async function loadRuleSets() {
+    const res = await fetch("/api/scoring/rules");
+    const data = await res.json();
+    setRuleSets(data.ruleSets || []);
+    if (data.active) setRulesDraft(JSON.stringify(data.active.rules, null, 2));
+  }
+
+  async function saveRuleSet() {
+    let rules: unknown;
+    try {
+      rules = JSON.parse(rulesDraft);
+    } catch {
+      toast.error("Rules must be valid JSON");
+      return;
+    }
+    setSavingRules(true);
+    try {
+      const res = await fetch("/api/scoring/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules, name: rulesName || undefined, activate: true }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save rules");
+      toast.success(`Rule set v${data.version} saved and scores recalculated.`);
+      setRulesName("");
+      await loadRuleSets();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSavingRules(false);
+    }
+  }
+
+  async function activateRuleSet(version: number) {
+    setSavingRules(true);
+    try {
+      const res = await fetch(`/api/scoring/rules/${version}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: true }),
+      });
+      if (!res.ok) throw new Error("Failed to activate rule set");
+      toast.success(`Rule set v${version} activated and scores recalculated.`);
+      await loadRuleSets();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSavingRules(false);
+    }
+  }
+
   function resetWeights() {
     setWeights({ ...DEFAULT_WEIGHTS });
-    toast.info("Weights reset to defaults (not yet saved)");
+    setDecay({ ...DEFAULT_DECAY });
+    toast.info("Weights and decay reset to defaults (not yet saved)");
   }
 
   function updateWeight(key: string, value: number) {
@@ -105,6 +187,10 @@ export default function SettingsPage() {
     setWeights({ ...weights, [key]: value });
   }
 
+  function updateDecay(key: keyof ScoringDecay, patch: Partial<ScoringDecay[keyof ScoringDecay]>) {
+    setDecay({ ...decay, [key]: { ...decay[key], ...patch } });
+  }
+
   const totalWeight = weights
     ? Object.values(weights).reduce((sum, v) => sum + v, 0)
     : 0;
@@ -155,6 +241,30 @@ export default function SettingsPage() {
                     max={50}
                     step={1}
                   />
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={decay[key as keyof ScoringDecay].curve}
+                      onValueChange={(v) => updateDecay(key as keyof ScoringDecay, { curve: v as DecayCurve })}
+                    >
+                      <SelectTrigger className="h-8 text-xs flex-1"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {DECAY_CURVES.map((c) => (
+                          <SelectItem key={c} value={c}>{DECAY_LABELS[c]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-8 w-24 text-xs"
+                      placeholder="window"
+                      value={decay[key as keyof ScoringDecay].years ?? ""}
+                      onChange={(e) => updateDecay(key as keyof ScoringDecay, {
+                        years: e.target.value === "" ? null : Math.max(0, Number(e.target.value)),
+                      })}
+                    />
+                    <span className="text-xs text-muted-foreground">yrs</span>
+                  </div>
                 </div>
               ))}
               <Separator />
@@ -167,6 +277,51 @@ export default function SettingsPage() {
               {(totalWeight > 1.01 || totalWeight < 0.99) && (
                 <p className="text-xs text-destructive">Weights should sum to 100%.</p>
               )}
+              <p className="text-xs text-muted-foreground">
+                Decay sets how much older records count: step drops them after the horizon, linear fades them to zero
+                over it, half-life halves them every interval. Leave years blank to use the rule set&apos;s rolling
+                window; 0 disables decay.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Scale className="h-4 w-4" /> Scoring Rules
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={rulesDraft}
+                onChange={(e) => setRulesDraft(e.target.value)}
+                rows={12}
+                className="font-mono text-xs"
+              />
+              <div><Label>Version Name</Label><Input value={rulesName} onChange={(e) => setRulesName(e.target.value)} placeholder="e.g. Heavier peer weighting" /></div>
+              <Button size="sm" className="w-full" disabled={savingRules} onClick={saveRuleSet}>
+                <Save className="h-3 w-3 mr-1" /> {savingRules ? "Saving..." : "Save as New Version"}
+              </Button>
+              <p className="text-xs text-muted-foreground">Saving creates a new version, activates it, and recalculates all scores. Snapshots record the version they were published with.</p>
+              {ruleSets.length > 0 && (
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {ruleSets.map((rs) => (
+                    <div key={rs.id} className="flex items-center justify-between text-sm py-1 border-b last:border-0">
+                      <div className="min-w-0">
+                        <span className="font-mono">v{rs.version}</span>
+                        {rs.name && <span className="text-muted-foreground ml-2 truncate">{rs.name}</span>}
+                      </div>
+                      {rs.isActive ? (
+                        <Badge variant="default" className="text-xs">Active</Badge>
+                      ) : (
+                        <Button variant="ghost" size="sm" className="h-6 text-xs" disabled={savingRules} onClick={() => activateRuleSet(rs.version)}>
+                          Activate
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -229,6 +384,8 @@ export default function SettingsPage() {
         </div>
 
         <div className="space-y-4">
+          <CollectorSettings />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-base flex items-center gap-2">
@@ -36,7 +36,7 @@ const STEPS: StepConfig[] = [
     id: "collect",
     label: "Collect Data",
     icon: Database,
-    description: "Fetch latest data from Michelin, James Beard, World's 50 Best, and Instagram",
+    description: "Fetch latest data from Michelin, James Beard, World's 50 Best, and Instagram into the review queue",
     endpoint: "/api/update/collect",
     stepName: "data_collection",
   },
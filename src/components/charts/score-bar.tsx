@@ -15,6 +15,7 @@ import { DEFAULT_WEIGHTS } from "@/types";
 const COLORS: Record<string, string> = {
   formalAccolades: "#2563eb",
   careerTrack: "#16a34a",
+  industryRecognition: "#d97706",
   publicSignals: "#8b5cf6",
   peerStanding: "#06b6d4",
 };
@@ -22,6 +23,7 @@ const COLORS: Record<string, string> = {
 const LABELS: Record<string, string> = {
   formalAccolades: "Accolades",
   careerTrack: "Career",
+  industryRecognition: "Industry",
   publicSignals: "Public",
   peerStanding: "Peers",
 };
@@ -40,7 +42,7 @@ export function ScoreBar({ breakdown, weights = DEFAULT_WEIGHTS }: Props) {
   }));
 
   return (
-    <ResponsiveContainer width="100%" height={200}>
+    <ResponsiveContainer width="100%" height={240}>
       <BarChart data={data} layout="vertical">
         <XAxis type="number" domain={[0, 100]} />
         <YAxis type="category" dataKey="name" width={80} className="text-xs" />
@@ -0,0 +1,69 @@
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ErrorBar,
+  Cell,
+} from "recharts";
+import type { ScoreUncertainty } from "@/types";
+
+const COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706"];
+
+interface Props {
+  data: { name: string; totalScore: number; uncertainty: ScoreUncertainty }[];
+}
+
+// Total scores with their uncertainty band drawn as error bars
+export function ScoreInterval({ data }: Props) {
+  const chartData = data.map((d, i) => ({
+    name: d.name,
+    score: d.totalScore,
+    // ErrorBar takes [below, above] offsets from the bar's value
+    band: [d.totalScore - d.uncertainty.low, d.uncertainty.high - d.totalScore],
+    low: d.uncertainty.low,
+    high: d.uncertainty.high,
+    color: COLORS[i % COLORS.length],
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={60 + data.length * 44}>
+      <BarChart data={chartData} layout="vertical">
+        <XAxis type="number" domain={[0, 100]} />
+        <YAxis type="category" dataKey="name" width={120} className="text-xs" />
+        <Tooltip
+          formatter={(value, _name, item) => {
+            const { low, high } = item.payload as { low: number; high: number };
+            return [`${(value as number).toFixed(1)} (${low.toFixed(1)}–${high.toFixed(1)})`, "Total Score"];
+          }}
+        />
+        <Bar dataKey="score" name="Total Score" radius={[0, 4, 4, 0]}>
+          {chartData.map((entry, index) => (
+            <Cell key={index} fill={entry.color} fillOpacity={0.75} />
+          ))}
+          <ErrorBar dataKey="band" width={6} strokeWidth={1.5} stroke="#334155" direction="x" />
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+// Compact error bar for table cells: the band on a 0-100 track with a tick at the score
+export function ScoreRange({ score, uncertainty }: { score: number; uncertainty: ScoreUncertainty }) {
+  return (
+    <div
+      className="relative h-1.5 w-20 rounded-full bg-muted"
+      title={`${uncertainty.low.toFixed(1)}–${uncertainty.high.toFixed(1)} (±${uncertainty.margin.toFixed(1)}, ${uncertainty.completeness}% complete)`}
+    >
+      <div
+        className="absolute inset-y-0 rounded-full bg-primary/30"
+        style={{ left: `${uncertainty.low}%`, width: `${uncertainty.high - uncertainty.low}%` }}
+      />
+      <div className="absolute -inset-y-0.5 w-0.5 bg-primary" style={{ left: `${score}%` }} />
+    </div>
+  );
+}
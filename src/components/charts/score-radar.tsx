@@ -16,6 +16,7 @@ const COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706"];
 const LABELS: Record<string, string> = {
   formalAccolades: "Accolades",
   careerTrack: "Career",
+  industryRecognition: "Industry",
   publicSignals: "Public",
   peerStanding: "Peers",
 };
@@ -0,0 +1,61 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+
+const COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706"];
+
+interface Props {
+  signals: { platform: string; readings: { value: number | null; recordedAt: string }[] }[];
+}
+
+function compact(value: number): string {
+  return Intl.NumberFormat("en-US", { notation: "compact" }).format(value);
+}
+
+// Follower counts over time, one line per platform
+export function SignalHistory({ signals }: Props) {
+  const tracked = signals.filter((s) => s.readings.some((r) => r.value != null));
+  if (tracked.length === 0) return <p className="text-sm text-muted-foreground">No follower history yet.</p>;
+
+  const byDate = new Map<string, Record<string, number | string>>();
+  for (const s of tracked) {
+    for (const r of s.readings) {
+      if (r.value == null) continue;
+      const date = r.recordedAt.slice(0, 10);
+      byDate.set(date, { ...byDate.get(date), date, [s.platform]: r.value });
+    }
+  }
+  const data = [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+
+  return (
+    <ResponsiveContainer width="100%" height={200}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis dataKey="date" className="text-xs" />
+        <YAxis tickFormatter={compact} className="text-xs" width={48} />
+        <Tooltip formatter={(value) => Number(value).toLocaleString("en-US")} />
+        {tracked.length > 1 && <Legend />}
+        {tracked.map((s, i) => (
+          <Line
+            key={s.platform}
+            type="monotone"
+            dataKey={s.platform}
+            stroke={COLORS[i % COLORS.length]}
+            strokeWidth={2}
+            dot={{ r: 4 }}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
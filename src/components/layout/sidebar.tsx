@@ -16,6 +16,10 @@ import {
   Newspaper,
   Mail,
   HeartPulse,
+  FlaskConical,
+  ListOrdered,
+  ClipboardCheck,
+  History,
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -23,11 +27,15 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 
 const navItems = [
   { href: "/", label: "Rankings", icon: Trophy },
+  { href: "/rankings", label: "Sub-rankings", icon: ListOrdered },
   { href: "/chefs", label: "Chefs", icon: Users },
   { href: "/news", label: "News", icon: Newspaper },
   { href: "/outreach", label: "Outreach", icon: Mail },
   { href: "/compare", label: "Compare", icon: GitCompare },
+  { href: "/sandbox", label: "Scoring Sandbox", icon: FlaskConical },
   { href: "/update", label: "Monthly Update", icon: RefreshCw },
+  { href: "/review", label: "Review Queue", icon: ClipboardCheck },
+  { href: "/collection-runs", label: "Collection Runs", icon: History },
   { href: "/archive", label: "Archive", icon: Archive },
   { href: "/health", label: "System Health", icon: HeartPulse },
   { href: "/settings", label: "Settings", icon: Settings },
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Database, Save } from "lucide-react";
+import { COLLECTOR_SCHEDULES, type CollectorInfo, type CollectorSchedule } from "@/lib/collectors/types";
+
+const SCHEDULE_LABELS: Record<CollectorSchedule, string> = {
+  every_run: "Every run",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  manual: "Manual only",
+};
+
+// Form state keeps the chef subset as the comma-separated text being edited
+type Draft = CollectorInfo["settings"] & { chefSlugsText: string };
+
+function toDraft(info: CollectorInfo): Draft {
+  return { ...info.settings, chefSlugsText: info.settings.chefSlugs?.join(", ") ?? "" };
+}
+
+export function CollectorSettings() {
+  const [collectors, setCollectors] = useState<CollectorInfo[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/collectors")
+      .then((r) => r.json())
+      .then((data) => {
+        const list: CollectorInfo[] = data.collectors || [];
+        setCollectors(list);
+        setDrafts(Object.fromEntries(list.map((c) => [c.id, toDraft(c)])));
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, []);
+
+  function updateDraft(id: string, patch: Partial<Draft>) {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  }
+
+  async function save(id: string) {
+    const { chefSlugsText, ...draft } = drafts[id];
+    const slugs = chefSlugsText.split(",").map((s) => s.trim()).filter(Boolean);
+    setSaving(id);
+    try {
+      const res = await fetch(`/api/collectors/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, chefSlugs: slugs.length > 0 ? slugs : null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save collector settings");
+      setCollectors((prev) => prev.map((c) => (c.id === id ? data : c)));
+      updateDraft(id, toDraft(data));
+      toast.success(`${data.name} settings saved.`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Database className="h-4 w-4" /> Data Collectors
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-48" />
+        ) : (
+          collectors.map((collector) => {
+            const draft = drafts[collector.id];
+            return (
+              <div key={collector.id} className="space-y-2 border-b last:border-0 pb-4 last:pb-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">{collector.name}</p>
+                    <p className="text-xs text-muted-foreground">{collector.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Last run {collector.lastRunAt ? new Date(collector.lastRunAt).toLocaleString() : "never"}
+                      {collector.due && <Badge variant="outline" className="ml-2 text-xs">Due</Badge>}
+                    </p>
+                  </div>
+                  <Button
+                    variant={draft.enabled ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs shrink-0"
+                    onClick={() => updateDraft(collector.id, { enabled: !draft.enabled })}
+                  >
+                    {draft.enabled ? "Enabled" : "Disabled"}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="col-span-2">
+                    <Label className="text-xs">Schedule</Label>
+                    <Select
+                      value={draft.schedule}
+                      onValueChange={(v) => updateDraft(collector.id, { schedule: v as CollectorSchedule })}
+                    >
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {COLLECTOR_SCHEDULES.map((s) => (
+                          <SelectItem key={s} value={s}>{SCHEDULE_LABELS[s]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">Chefs in parallel</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 text-xs"
+                      value={draft.concurrency}
+                      onChange={(e) => updateDraft(collector.id, { concurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Min gap per host (ms)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-8 text-xs"
+                      value={draft.rateLimitMs}
+                      onChange={(e) => updateDraft(collector.id, { rateLimitMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Attempts per request</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 text-xs"
+                      value={draft.maxRetries}
+                      onChange={(e) => updateDraft(collector.id, { maxRetries: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Retry backoff (ms)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-8 text-xs"
+                      value={draft.retryBaseDelayMs}
+                      onChange={(e) => updateDraft(collector.id, { retryBaseDelayMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-xs">Chef subset</Label>
+                  <Input
+                    className="h-8 text-xs"
+                    placeholder="All active chefs (or comma-separated slugs)"
+                    value={draft.chefSlugsText}
+                    onChange={(e) => updateDraft(collector.id, { chefSlugsText: e.target.value })}
+                  />
+                </div>
+                <Button size="sm" className="w-full" disabled={saving === collector.id} onClick={() => save(collector.id)}>
+                  <Save className="h-3 w-3 mr-1" /> {saving === collector.id ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            );
+          })
+        )}
+        <p className="text-xs text-muted-foreground">
+          Collection runs every enabled collector whose schedule is due, several at a time. Requests to the same
+          site are queued and spaced by the minimum gap. Manual collectors only run when requested
+          by id through <code>POST /api/collect</code>.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
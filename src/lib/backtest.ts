@@ -0,0 +1,183 @@
+/**
+ * Backtest: replay a scoring model against the data as it stood at each past
+ * MonthlySnapshot and compare the resulting ranks with the published ones.
+ *
+ * "As of" a month means records created before the month ended, scored with
+ * decay measured from the end of that month, among the chefs the snapshot
+ * ranked. Public signals take their latest reading from before the month
+ * ended, so later follower counts don't leak into earlier months. Fields that
+ * are edited in place (yearsExperience, a record's year) have no history and
+ * are replayed at their current values.
+ */
+
+import { prisma } from "./db";
+import { calculateBreakdown, calculateTotalScore, resolveScoringModel, type ScoringModel, type SimulationInput } from "./scoring";
+import type { ScorableChef } from "./scoring-engine";
+
+export interface BacktestInput extends SimulationInput {
+  months?: string[]; // YYYY-MM; defaults to every snapshot
+}
+
+export interface BacktestEntry {
+  chef: { id: string; name: string; slug: string };
+  historicalRank: number;
+  backtestRank: number;
+  delta: number; // positive = the model would have ranked the chef higher
+  historicalScore: number;
+  backtestScore: number;
+}
+
+export interface BacktestMonth {
+  month: string;
+  snapshotId: string;
+  historicalRuleSetVersion: number | null;
+  chefCount: number;
+  movedCount: number;
+  meanAbsDelta: number;
+  entries: BacktestEntry[];
+}
+
+export interface BacktestChefSummary {
+  chef: { id: string; name: string; slug: string };
+  monthsCompared: number;
+  meanDelta: number;
+  largestMove: { month: string; delta: number };
+}
+
+export interface BacktestReport {
+  model: ScoringModel;
+  months: BacktestMonth[];
+  chefs: BacktestChefSummary[]; // biggest average movers first
+  generatedAt: string;
+}
+
+// First instant after the snapshot month, in UTC
+function monthEnd(month: string): Date {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 1));
+}
+
+type Dated = { createdAt: Date };
+type Reading = { value: number | null; recordedAt: Date };
+
+// A chef as loaded from the database, with every record's creation time and each signal's readings
+interface HistoricalChef {
+  yearsExperience: number | null;
+  accolades: (ScorableChef["accolades"][number] & Dated)[];
+  careerEntries: (ScorableChef["careerEntries"][number] & Dated)[];
+  recognitions: (ScorableChef["recognitions"][number] & Dated)[];
+  publicSignals: (Omit<ScorableChef["publicSignals"][number], "readings"> & Dated & { readings: Reading[] })[];
+  peerStandings: (ScorableChef["peerStandings"][number] & Dated)[];
+}
+
+/**
+ * A chef's records as they stood at asOf: those created before it, with each
+ * public signal at its latest reading by then. Signals with no reading yet are left out.
+ */
+export function chefAsOf(chef: HistoricalChef, asOf: Date): ScorableChef {
+  const before = <T extends Dated>(records: T[]) => records.filter((r) => r.createdAt < asOf);
+  const publicSignals = before(chef.publicSignals).flatMap((signal) => {
+    const latest = signal.readings
+      .filter((r) => r.recordedAt < asOf)
+      .reduce<Reading | null>((best, r) => (!best || r.recordedAt > best.recordedAt ? r : best), null);
+    return latest ? [{ ...signal, value: latest.value }] : [];
+  });
+  return {
+    yearsExperience: chef.yearsExperience,
+    accolades: before(chef.accolades),
+    careerEntries: before(chef.careerEntries),
+    recognitions: before(chef.recognitions),
+    publicSignals,
+    peerStandings: before(chef.peerStandings),
+  };
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/** Read-only: nothing is written. Throws if the model input is invalid. */
+export async function runBacktest(
+  input: BacktestInput,
+  onProgress?: (month: string, index: number, total: number) => void
+): Promise<BacktestReport> {
+  const model = await resolveScoringModel(input);
+
+  const snapshots = await prisma.monthlySnapshot.findMany({
+    where: input.months?.length ? { month: { in: input.months } } : undefined,
+    orderBy: { month: "asc" },
+    include: { entries: true },
+  });
+
+  const chefIds = [...new Set(snapshots.flatMap((s) => s.entries.map((e) => e.chefId)))];
+  const chefs = await prisma.chef.findMany({
+    where: { id: { in: chefIds } },
+    include: {
+      accolades: true,
+      careerEntries: true,
+      recognitions: true,
+      publicSignals: { include: { readings: true } },
+      peerStandings: true,
+    },
+  });
+  const chefMap = new Map(chefs.map((c) => [c.id, c]));
+
+  const months: BacktestMonth[] = [];
+  for (const [index, snapshot] of snapshots.entries()) {
+    onProgress?.(snapshot.month, index, snapshots.length);
+    const asOf = monthEnd(snapshot.month);
+
+    const scored = snapshot.entries.flatMap((entry) => {
+      const chef = chefMap.get(entry.chefId);
+      if (!chef) return [];
+      const breakdown = calculateBreakdown(chefAsOf(chef, asOf), model.rules, model.decay, asOf);
+      return [{ chef, entry, total: calculateTotalScore(breakdown, model.weights) }];
+    });
+    scored.sort((a, b) => b.total - a.total);
+
+    const entries: BacktestEntry[] = scored.map((s, i) => ({
+      chef: { id: s.chef.id, name: s.chef.name, slug: s.chef.slug },
+      historicalRank: s.entry.rank,
+      backtestRank: i + 1,
+      delta: s.entry.rank - (i + 1),
+      historicalScore: s.entry.totalScore,
+      backtestScore: s.total,
+    }));
+    entries.sort((a, b) => a.historicalRank - b.historicalRank);
+
+    const totalAbsDelta = entries.reduce((sum, e) => sum + Math.abs(e.delta), 0);
+    months.push({
+      month: snapshot.month,
+      snapshotId: snapshot.id,
+      historicalRuleSetVersion: snapshot.ruleSetVersion,
+      chefCount: entries.length,
+      movedCount: entries.filter((e) => e.delta !== 0).length,
+      meanAbsDelta: entries.length ? round1(totalAbsDelta / entries.length) : 0,
+      entries,
+    });
+  }
+
+  const byChef = new Map<string, BacktestChefSummary & { totalDelta: number }>();
+  for (const month of months) {
+    for (const e of month.entries) {
+      const summary = byChef.get(e.chef.id) ?? {
+        chef: e.chef,
+        monthsCompared: 0,
+        meanDelta: 0,
+        largestMove: { month: month.month, delta: 0 },
+        totalDelta: 0,
+      };
+      summary.monthsCompared++;
+      summary.totalDelta += e.delta;
+      if (Math.abs(e.delta) > Math.abs(summary.largestMove.delta)) {
+        summary.largestMove = { month: month.month, delta: e.delta };
+      }
+      byChef.set(e.chef.id, summary);
+    }
+  }
+  const chefSummaries = [...byChef.values()]
+    .map(({ totalDelta, ...summary }) => ({ ...summary, meanDelta: round1(totalDelta / summary.monthsCompared) }))
+    .sort((a, b) => Math.abs(b.meanDelta) - Math.abs(a.meanDelta));
+
+  return { model, months, chefs: chefSummaries, generatedAt: new Date().toISOString() };
+}
@@ -0,0 +1,86 @@
+/**
+ * Bocuse d'Or collector: reads the competition's winners page, which lists the
+ * podium and special prizes of every edition, and matches candidates to chefs
+ * by name. Each placing is recorded with its prize and edition year.
+ */
+
+import * as cheerio from "cheerio";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS } from "./types";
+import { httpGet } from "./http";
+import { normalizeName } from "./matching";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+
+const SELECTORS = SOURCE_SELECTORS["bocuse-dor"];
+
+const WINNERS_URL = "https://www.bocusedor.com/en/winners";
+
+/** One placing from the winners page. */
+export interface BocuseWinner {
+  name: string;
+  country: string | null;
+  prize: string; // "Gold", "Silver", "Bronze" or a special prize
+  year: number | null;
+}
+
+export function parseBocuseWinners(html: string): BocuseWinner[] {
+  const $ = cheerio.load(html);
+  const f = SELECTORS.fields;
+
+  return $(SELECTORS.item).toArray().flatMap((el) => {
+    const item = $(el);
+    const name = item.find(f.name).first().text().trim();
+    const prize = item.find(f.prize).first().text().trim();
+    if (!name || !prize) return [];
+
+    const yearText = item.find(f.edition).first().text() || item.text();
+    const year = parseInt(yearText.match(/\b(19|20)\d{2}\b/)?.[0] ?? "");
+    return [{
+      name,
+      country: item.find(f.country).first().text().trim() || null,
+      prize,
+      year: Number.isNaN(year) ? null : year,
+    }];
+  });
+}
+
+export const bocuseDorCollector: Collector = {
+  name: "Bocuse d'Or",
+  confidence: 0.85,
+
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    try {
+      const html = await httpGet(WINNERS_URL, { ...options, timeoutMs: 15000 });
+      const winners = parseBocuseWinners(html);
+      recordPage(stats, winners.length);
+      if (winners.length === 0) return results;
+
+      for (const chef of chefs) {
+        const name = normalizeName(chef.name);
+        const placings = winners.filter((w) => normalizeName(w.name) === name);
+        if (placings.length === 0) continue;
+
+        results.push({
+          chefId: chef.id,
+          source: "Bocuse d'Or",
+          accolades: placings.map((w) => ({
+            type: "BOCUSE_DOR",
+            detail: `${w.prize}${w.country ? ` (${w.country})` : ""}`,
+            year: w.year ?? undefined,
+            sourceUrl: WINNERS_URL,
+          })),
+        });
+      }
+    } catch (err) {
+      console.error(`[Bocuse d'Or] Failed to fetch winners: ${(err as Error).message}`);
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * Cookbook collector: looks each chef up as an author in the Open Library
+ * catalogue and records how many distinct books they have published.
+ *
+ * With COOKBOOK_CATALOG set to a JSON file of Open Library search responses
+ * keyed by author name, the catalogue is read from that file instead and the
+ * network is never touched; fixtures/collectors/cookbooks.json is one.
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { normalizeName } from "./matching";
+
+const SEARCH_FIELDS = "key,title,author_name,first_publish_year,isbn";
+
+/** The part of an Open Library search.json response the collector reads. */
+export interface OpenLibrarySearch {
+  docs: {
+    key?: string;
+    title?: string;
+    author_name?: string[];
+    first_publish_year?: number;
+    isbn?: string[];
+  }[];
+}
+
+export interface Cookbook {
+  title: string;
+  year: number | null;
+  isbn: string | null;
+}
+
+/**
+ * Books credited to the chef, one per title: author search also returns books
+ * by namesakes and co-authors' other work, and every edition as its own work.
+ */
+export function parseCookbooks(chefName: string, search: OpenLibrarySearch): Cookbook[] {
+  const author = normalizeName(chefName);
+  const books = new Map<string, Cookbook>();
+
+  for (const doc of search.docs ?? []) {
+    if (!doc.title || !doc.author_name?.some((name) => normalizeName(name) === author)) continue;
+    const key = normalizeName(doc.title.split(/[:(]/)[0]);
+    const year = doc.first_publish_year ?? null;
+    const existing = books.get(key);
+    // Keep the earliest known year across editions
+    if (existing && (year == null || (existing.year != null && existing.year <= year))) continue;
+    books.set(key, { title: doc.title.trim(), year, isbn: doc.isbn?.[0] ?? existing?.isbn ?? null });
+  }
+
+  return [...books.values()].sort((a, b) => (b.year ?? 0) - (a.year ?? 0));
+}
+
+function searchUrl(chefName: string): string {
+  return `https://openlibrary.org/search.json?author=${encodeURIComponent(chefName)}&fields=${SEARCH_FIELDS}&limit=100`;
+}
+
+// Parsed once per file; a missing or malformed file fails every chef with the same error
+let catalog: { path: string; entries: Record<string, OpenLibrarySearch> } | null = null;
+
+function localSearch(path: string, chefName: string): OpenLibrarySearch {
+  const file = resolve(path);
+  if (catalog?.path !== file) {
+    catalog = { path: file, entries: JSON.parse(readFileSync(file, "utf-8")) };
+  }
+  return catalog.entries[chefName] ?? { docs: [] };
+}
+
+export const cookbooksCollector: Collector = {
+  name: "Open Library",
+  confidence: 0.8,
+
+  async collect(chefs: CollectorChef[], options: CollectorRunOptions = DEFAULT_RUN_OPTIONS): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+    const catalogPath = process.env.COOKBOOK_CATALOG;
+
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
+      try {
+        const search = catalogPath
+          ? localSearch(catalogPath, chef.name)
+          : await httpGet<OpenLibrarySearch>(searchUrl(chef.name), options);
+        const books = parseCookbooks(chef.name, search);
+        if (books.length === 0) return;
+
+        const latest = books[0];
+        results.push({
+          chefId: chef.id,
+          source: "Open Library",
+          publicSignals: [
+            {
+              platform: "COOKBOOK",
+              metric: `${books.length} cookbook${books.length > 1 ? "s" : ""} (latest: ${latest.title}${latest.year ? `, ${latest.year}` : ""})`,
+              value: books.length,
+              sourceUrl: `https://openlibrary.org/search?author=${encodeURIComponent(chef.name)}`,
+            },
+          ],
+        });
+      } catch (err) {
+        console.error(`[Open Library] Failed for ${chef.name}: ${(err as Error).message}`);
+        results.push({ chefId: chef.id, source: "Open Library", error: (err as Error).message });
+      }
+    });
+
+    return results;
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * Gault&Millau collector: searches the guide for each of a chef's restaurants,
+ * matching cards by restaurant name and city, and records the toques and
+ * score out of 20 the restaurant holds in that guide year.
+ */
+
+import * as cheerio from "cheerio";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { matchesRestaurant } from "./matching";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+
+const SELECTORS = SOURCE_SELECTORS["gault-millau"];
+
+/** One restaurant card from a guide search page. */
+export interface GaultMillauCard {
+  name: string;
+  location: string | null;
+  toques: number;
+  score: number | null; // out of 20
+  year: number | null; // guide edition, when the card shows it
+}
+
+export function parseGaultMillauCards(html: string): GaultMillauCard[] {
+  const $ = cheerio.load(html);
+  const f = SELECTORS.fields;
+
+  // Innermost matches only, so a wrapper around the result list is not read as one big card
+  const items = $(SELECTORS.item).filter((_, el) => $(el).find(SELECTORS.item).length === 0);
+  return items.toArray().map((el) => {
+    const card = $(el);
+    const text = card.text();
+    const toqueText = text.match(/(\d)\s*toques?\b/i);
+    const scoreText = (card.find(f.score).first().text() || text).match(/(\d{1,2}(?:[.,]5)?)\s*\/\s*20/);
+    const year = parseInt((card.find(f.guideYear).text() || text.match(/gault\s*&?\s*millau\s+(\d{4})/i)?.[1] || "").match(/\d{4}/)?.[0] ?? "");
+
+    return {
+      name: card.find(f.name).first().text().trim(),
+      location: card.find(f.location).first().text().trim() || null,
+      toques: card.find(f.toques).length || (toqueText ? parseInt(toqueText[1]) : 0),
+      score: scoreText ? parseFloat(scoreText[1].replace(",", ".")) : null,
+      year: Number.isNaN(year) ? null : year,
+    };
+  });
+}
+
+export const gaultMillauCollector: Collector = {
+  name: "Gault&Millau",
+  confidence: 0.85,
+
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
+      const accolades: NonNullable<CollectionResult["accolades"]> = [];
+      let lastError: Error | null = null;
+      let failures = 0;
+
+      for (const restaurant of chef.restaurants) {
+        try {
+          const searchUrl = `https://www.gaultmillau.com/en/search?q=${encodeURIComponent(restaurant.name)}`;
+          const cards = parseGaultMillauCards(await httpGet(searchUrl, options));
+          recordPage(stats, cards.length);
+
+          const card = cards.find((c) => matchesRestaurant(c, restaurant));
+          if (!card || card.toques === 0) continue;
+          accolades.push({
+            type: "GAULT_MILLAU",
+            detail: `${card.toques} toque${card.toques > 1 ? "s" : ""}${card.score != null ? ` · ${card.score}/20` : ""}`,
+            restaurant: restaurant.name,
+            year: card.year ?? new Date().getFullYear(),
+            sourceUrl: searchUrl,
+          });
+        } catch (err) {
+          // This restaurant's search failed; the others may still match
+          lastError = err as Error;
+          failures++;
+        }
+      }
+
+      if (accolades.length > 0) {
+        results.push({ chefId: chef.id, source: "Gault&Millau", accolades });
+      } else if (lastError && failures === chef.restaurants.length) {
+        console.error(`[Gault&Millau] Failed for ${chef.name}: ${lastError.message}`);
+        results.push({ chefId: chef.id, source: "Gault&Millau", error: lastError.message });
+      }
+    });
+
+    return results;
+  },
+};
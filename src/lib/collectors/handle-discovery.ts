@@ -0,0 +1,143 @@
+/**
+ * Handle discovery: proposes social handles for the platforms a chef has none
+ * on yet. Handles come from the chef's Wikidata entry (Instagram, TikTok,
+ * YouTube and X usernames, official website), then from the social links on
+ * the chef's website. Proposals go through the review queue like any other
+ * collected record; approved ones become the chef's managed handles.
+ */
+
+import * as cheerio from "cheerio";
+import { isSocialPlatform, parseSocialHandle } from "@/lib/social-handles";
+import { SOCIAL_PLATFORMS, type SocialPlatform } from "@/types";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { normalizeName } from "./matching";
+
+type FoundHandles = Partial<Record<SocialPlatform, string>>;
+
+// Wikidata properties holding each platform's account
+const WIKIDATA_PROPERTIES: Record<SocialPlatform, string> = {
+  INSTAGRAM: "P2003",
+  TIKTOK: "P7085",
+  YOUTUBE: "P2397", // channel id
+  X: "P2002",
+  WEBSITE: "P856",
+};
+
+// Namesakes are common, so the entry's description has to say what the chef does
+const CHEF_DESCRIPTION = /\b(chef|cook|restaurateur|culinary|pastry)\b/i;
+
+export interface WikidataSearch {
+  search?: { id: string; label?: string; description?: string }[];
+}
+
+interface WikidataClaim {
+  rank?: "preferred" | "normal" | "deprecated";
+  mainsnak?: { datavalue?: { value?: unknown } };
+}
+
+export interface WikidataEntities {
+  entities?: Record<string, { claims?: Record<string, WikidataClaim[]> }>;
+}
+
+function searchUrl(chefName: string): string {
+  return `https://www.wikidata.org/w/api.php?action=wbsearchentities&search=${encodeURIComponent(chefName)}&language=en&type=item&limit=5&format=json`;
+}
+
+function entityUrl(id: string): string {
+  return `https://www.wikidata.org/wiki/Special:EntityData/${id}.json`;
+}
+
+/** The search result that is this chef: same name, described as a chef. */
+export function pickChefEntity(chefName: string, search: WikidataSearch): string | null {
+  const name = normalizeName(chefName);
+  const match = (search.search ?? []).find(
+    (r) => r.label && normalizeName(r.label) === name && CHEF_DESCRIPTION.test(r.description ?? "")
+  );
+  return match?.id ?? null;
+}
+
+/** Accounts listed on an entity, preferring claims ranked preferred and skipping deprecated ones. */
+export function parseWikidataHandles(id: string, data: WikidataEntities): FoundHandles {
+  const claims = data.entities?.[id]?.claims ?? {};
+  const found: FoundHandles = {};
+
+  for (const platform of SOCIAL_PLATFORMS) {
+    const values = (claims[WIKIDATA_PROPERTIES[platform]] ?? [])
+      .filter((c) => c.rank !== "deprecated")
+      .sort((a, b) => Number(b.rank === "preferred") - Number(a.rank === "preferred"))
+      .map((c) => c.mainsnak?.datavalue?.value)
+      .filter((v): v is string => typeof v === "string");
+    for (const value of values) {
+      const handle = parseSocialHandle(platform, value);
+      if (handle) {
+        found[platform] = handle;
+        break;
+      }
+    }
+  }
+  return found;
+}
+
+/** Accounts linked from a website, usually in its header or footer. */
+export function parseWebsiteLinks(html: string): FoundHandles {
+  const $ = cheerio.load(html);
+  const found: FoundHandles = {};
+
+  $("a[href]").each((_, el) => {
+    const href = $(el).attr("href") ?? "";
+    for (const platform of SOCIAL_PLATFORMS) {
+      if (platform === "WEBSITE" || found[platform] || !/^https?:\/\//i.test(href)) continue;
+      const handle = parseSocialHandle(platform, href);
+      if (handle) found[platform] = handle;
+    }
+  });
+  return found;
+}
+
+export const handleDiscoveryCollector: Collector = {
+  name: "Handle discovery",
+  confidence: 0.7,
+
+  async collect(chefs: CollectorChef[], options: CollectorRunOptions = DEFAULT_RUN_OPTIONS): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
+      const known = new Map(chef.socialHandles.filter((h) => isSocialPlatform(h.platform)).map((h) => [h.platform, h.handle]));
+      const missing = SOCIAL_PLATFORMS.filter((p) => !known.has(p));
+      if (missing.length === 0) return;
+
+      const proposals: NonNullable<CollectionResult["socialHandles"]> = [];
+      const propose = (found: FoundHandles, sourceUrl: string) => {
+        for (const platform of missing) {
+          const handle = found[platform];
+          if (handle && !proposals.some((p) => p.platform === platform)) proposals.push({ platform, handle, sourceUrl });
+        }
+      };
+
+      try {
+        const id = pickChefEntity(chef.name, await httpGet<WikidataSearch>(searchUrl(chef.name), options));
+        if (id) propose(parseWikidataHandles(id, await httpGet<WikidataEntities>(entityUrl(id), options)), `https://www.wikidata.org/wiki/${id}`);
+      } catch (err) {
+        console.error(`[Handle discovery] Wikidata lookup failed for ${chef.name}: ${(err as Error).message}`);
+        results.push({ chefId: chef.id, source: "Handle discovery", error: (err as Error).message });
+        return;
+      }
+
+      // The chef's own site often links the accounts Wikidata lacks
+      const website = known.get("WEBSITE") ?? proposals.find((p) => p.platform === "WEBSITE")?.handle;
+      if (website && missing.some((p) => p !== "WEBSITE" && !proposals.some((q) => q.platform === p))) {
+        try {
+          propose(parseWebsiteLinks(await httpGet(website, { ...options, maxRedirects: 3 })), website);
+        } catch {
+          // A dead or blocking website still leaves the Wikidata proposals
+        }
+      }
+
+      if (proposals.length > 0) results.push({ chefId: chef.id, source: "Handle discovery", socialHandles: proposals });
+    });
+
+    return results;
+  },
+};
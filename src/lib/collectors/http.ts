@@ -0,0 +1,125 @@
+/**
+ * Shared HTTP client for collectors: one user agent, default timeouts,
+ * exponential backoff from fetchWithRetry, and per-host spacing so parallel
+ * collectors never hit the same site faster than its rate limit allows.
+ *
+ * Offline fixtures: with COLLECTOR_FIXTURES=record every successful response is
+ * saved under COLLECTOR_FIXTURES_DIR (default fixtures/http); with
+ * COLLECTOR_FIXTURES=replay responses are served from there and the network is
+ * never touched, failing on any URL that was not recorded.
+ */
+
+import axios, { isAxiosError } from "axios";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import type { CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, fetchWithRetry, sleep } from "./types";
+
+export const USER_AGENT = "Mozilla/5.0 (compatible; ChefRankerBot/1.0)";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Hosts that throttle harder than our per-collector defaults
+const HOST_MIN_INTERVAL_MS: Record<string, number> = {
+  "news.google.com": 1000,
+  "www.instagram.com": 1000,
+  "www.tiktok.com": 1000,
+};
+
+export interface HttpGetOptions extends Partial<CollectorRunOptions> {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  maxRedirects?: number;
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures/http";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+/** A recorded response, stored as JSON so fixtures diff cleanly. */
+export interface HttpFixture {
+  url: string;
+  contentType: string | null;
+  recordedAt: string;
+  body: string;
+}
+
+export function fixtureMode(): FixtureMode {
+  const mode = process.env.COLLECTOR_FIXTURES;
+  if (!mode || mode === "off") return "off";
+  if (mode === "record" || mode === "replay") return mode;
+  throw new Error(`COLLECTOR_FIXTURES must be "record", "replay" or "off", got "${mode}"`);
+}
+
+/** Where the fixture for a URL lives: one file per URL, grouped by host. */
+export function fixturePath(url: string): string {
+  const dir = resolve(process.env.COLLECTOR_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  const hash = createHash("sha1").update(url).digest("hex").slice(0, 16);
+  return join(dir, new URL(url).host, `${hash}.json`);
+}
+
+export function saveFixture(url: string, body: string, contentType: string | null = null): string {
+  const path = fixturePath(url);
+  const fixture: HttpFixture = { url, contentType, recordedAt: new Date().toISOString(), body };
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(fixture, null, 2) + "\n");
+  return path;
+}
+
+function loadFixture<T>(url: string): T {
+  const path = fixturePath(url);
+  if (!existsSync(path)) throw new Error(`No recorded fixture for ${url}`);
+  const fixture = JSON.parse(readFileSync(path, "utf-8")) as HttpFixture;
+  // axios parses JSON bodies; replay must hand back the same shape
+  return (fixture.contentType?.includes("json") ? JSON.parse(fixture.body) : fixture.body) as T;
+}
+
+// Next free slot per host, shared by every collector in the process
+const nextSlot = new Map<string, number>();
+
+/** Wait for this host's next request slot and reserve the one after it. */
+async function acquireHostSlot(host: string, intervalMs: number): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(host) ?? 0);
+  nextSlot.set(host, slot + intervalMs);
+  if (slot > now) await sleep(slot - now);
+}
+
+// Client errors other than rate limiting won't succeed on retry
+function isRetryable(err: unknown): boolean {
+  if (!isAxiosError(err) || !err.response) return true;
+  const status = err.response.status;
+  return status === 429 || status >= 500;
+}
+
+/** GET a URL and return the response body. Throws after the last failed attempt. */
+export async function httpGet<T = string>(url: string, options: HttpGetOptions = {}): Promise<T> {
+  const mode = fixtureMode();
+  if (mode === "replay") return loadFixture<T>(url);
+
+  const { rateLimitMs, maxRetries, retryBaseDelayMs } = { ...DEFAULT_RUN_OPTIONS, ...options };
+  const host = new URL(url).host;
+  const intervalMs = Math.max(rateLimitMs, HOST_MIN_INTERVAL_MS[host] ?? 0);
+
+  const response = await fetchWithRetry(
+    async () => {
+      await acquireHostSlot(host, intervalMs);
+      return axios.get<T>(url, {
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        headers: { "User-Agent": USER_AGENT, ...options.headers },
+        maxRedirects: options.maxRedirects,
+      });
+    },
+    maxRetries,
+    retryBaseDelayMs,
+    isRetryable,
+  ) as { data: T; headers: Record<string, unknown> };
+
+  if (mode === "record") {
+    const contentType = response.headers["content-type"];
+    const body = typeof response.data === "string" ? response.data : JSON.stringify(response.data);
+    saveFixture(url, body, typeof contentType === "string" ? contentType : null);
+  }
+  return response.data;
+}
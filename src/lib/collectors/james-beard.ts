@@ -2,33 +2,37 @@
  * James Beard Awards collector: searches jamesbeard.org for award data.
  */
 
-import axios from "axios";
 import * as cheerio from "cheerio";
-import type { Collector, CollectionResult, CollectorChef } from "./types";
-import { sleep, fetchWithRetry } from "./types";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+
+const SELECTORS = SOURCE_SELECTORS["james-beard"];
 
 export const jamesBeardCollector: Collector = {
   name: "James Beard Awards",
+  confidence: 0.8,
 
-  async collect(chefs: CollectorChef[]): Promise<CollectionResult[]> {
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
     const results: CollectionResult[] = [];
 
-    for (const chef of chefs) {
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
       try {
         const searchUrl = `https://www.jamesbeard.org/awards/search?keyword=${encodeURIComponent(chef.name)}`;
+        const html = await httpGet(searchUrl, options);
 
-        const response = await fetchWithRetry(
-          () => axios.get(searchUrl, {
-            timeout: 10000,
-            headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
-          }),
-        ) as { data: string };
-
-        const $ = cheerio.load(response.data);
+        const $ = cheerio.load(html);
         const accolades: CollectionResult["accolades"] = [];
 
         // Parse award result entries
-        $(".c-award-recipient, .award-item, .search-result").each((_, el) => {
+        const entries = $(SELECTORS.item);
+        recordPage(stats, entries.length);
+        entries.each((_, el) => {
           const text = $(el).text().trim();
           const nameMatch = text.toLowerCase().includes(chef.name.toLowerCase());
 
@@ -38,7 +42,7 @@ export const jamesBeardCollector: Collector = {
             const year = yearMatch ? parseInt(yearMatch[0]) : null;
 
             // Extract award detail
-            const detailEl = $(el).find(".award-name, .c-award-recipient__award, h3, h4");
+            const detailEl = $(el).find(SELECTORS.fields.detail);
             const detail = detailEl.text().trim() || "James Beard Award";
 
             accolades.push({
@@ -57,13 +61,12 @@ export const jamesBeardCollector: Collector = {
             accolades,
           });
         }
-
-        await sleep(500);
       } catch (err) {
         // Per-chef isolation: log and continue
         console.error(`[James Beard] Failed for ${chef.name}: ${(err as Error).message}`);
+        results.push({ chefId: chef.id, source: "James Beard Awards", error: (err as Error).message });
       }
-    }
+    });
 
     return results;
   },
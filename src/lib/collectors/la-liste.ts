@@ -0,0 +1,92 @@
+/**
+ * La Liste collector: searches La Liste for each of a chef's restaurants,
+ * matching results by restaurant name and city, and records the restaurant's
+ * score out of 100 in that edition.
+ */
+
+import * as cheerio from "cheerio";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { matchesRestaurant } from "./matching";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+
+const SELECTORS = SOURCE_SELECTORS["la-liste"];
+
+/** One restaurant from a search page. */
+export interface LaListeEntry {
+  name: string;
+  location: string | null;
+  score: number | null; // out of 100
+  year: number | null; // edition, when the page shows it
+}
+
+export function parseLaListeEntries(html: string): LaListeEntry[] {
+  const $ = cheerio.load(html);
+  const f = SELECTORS.fields;
+
+  const items = $(SELECTORS.item).filter((_, el) => $(el).find(SELECTORS.item).length === 0);
+  return items.toArray().map((el) => {
+    const item = $(el);
+    const scoreText = item.find(f.score).first().text().match(/\d{2,3}(?:[.,]\d+)?/)?.[0];
+    const year = parseInt(item.find(f.edition).first().text().match(/\b20\d{2}\b/)?.[0] ?? "");
+    const score = scoreText ? parseFloat(scoreText.replace(",", ".")) : NaN;
+
+    return {
+      name: item.find(f.name).first().text().trim(),
+      location: item.find(f.location).first().text().trim() || null,
+      score: Number.isNaN(score) || score > 100 ? null : score,
+      year: Number.isNaN(year) ? null : year,
+    };
+  });
+}
+
+export const laListeCollector: Collector = {
+  name: "La Liste",
+  confidence: 0.8,
+
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
+      const accolades: NonNullable<CollectionResult["accolades"]> = [];
+      let lastError: Error | null = null;
+      let failures = 0;
+
+      for (const restaurant of chef.restaurants) {
+        try {
+          const searchUrl = `https://www.laliste.com/en/search?q=${encodeURIComponent(restaurant.name)}`;
+          const entries = parseLaListeEntries(await httpGet(searchUrl, options));
+          recordPage(stats, entries.length);
+
+          const entry = entries.find((e) => matchesRestaurant(e, restaurant));
+          if (!entry || entry.score == null) continue;
+          accolades.push({
+            type: "LA_LISTE",
+            detail: `${entry.score} points`,
+            restaurant: restaurant.name,
+            year: entry.year ?? new Date().getFullYear(),
+            sourceUrl: searchUrl,
+          });
+        } catch (err) {
+          // This restaurant's search failed; the others may still match
+          lastError = err as Error;
+          failures++;
+        }
+      }
+
+      if (accolades.length > 0) {
+        results.push({ chefId: chef.id, source: "La Liste", accolades });
+      } else if (lastError && failures === chef.restaurants.length) {
+        console.error(`[La Liste] Failed for ${chef.name}: ${lastError.message}`);
+        results.push({ chefId: chef.id, source: "La Liste", error: lastError.message });
+      }
+    });
+
+    return results;
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Matching collected cards against a chef's restaurants, shared by the
+ * guide collectors that search per restaurant.
+ */
+
+import type { CollectorChef } from "./types";
+
+type Restaurant = CollectorChef["restaurants"][number];
+
+// Lowercase, accents and punctuation dropped, so "Mirazur" matches "MIRAZUR" and "Café" matches "Cafe"
+export function normalizeName(text: string): string {
+  return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Leading articles lists and guides drop or keep inconsistently: "The Chairman", "Le Calandre", "L'Arpège"
+const LEADING_ARTICLE = /^(the|le|la|les|l|il|lo|el|los|las|der|die|das) /;
+
+function normalizeRestaurantName(text: string): string {
+  return normalizeName(text).replace(LEADING_ARTICLE, "");
+}
+
+/**
+ * Same restaurant name, ignoring a leading article, and the card's location
+ * names the restaurant's city when both are known.
+ */
+export function matchesRestaurant(card: { name: string; location: string | null }, restaurant: Restaurant): boolean {
+  if (!card.name || normalizeRestaurantName(card.name) !== normalizeRestaurantName(restaurant.name)) return false;
+  if (!card.location || !restaurant.city) return true;
+  return normalizeName(card.location).includes(normalizeName(restaurant.city));
+}
@@ -1,102 +1,175 @@
 /**
- * Michelin Guide collector: searches guide.michelin.com for each chef.
+ * Michelin Guide collector: searches guide.michelin.com for each of a chef's
+ * restaurants, matching cards by restaurant name and city. Records the stars,
+ * Green Star and Bib Gourmand per restaurant and guide year, and a star loss
+ * when a restaurant holds fewer stars than in its last recorded guide; the
+ * earlier stars are then ended from the new guide year.
  * Falls back to Google RSS search for Michelin site mentions.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import axios from "axios";
 import * as cheerio from "cheerio";
-import type { Collector, CollectionResult, CollectorChef } from "./types";
-import { sleep, fetchWithRetry } from "./types";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+import { matchesRestaurant, normalizeName } from "./matching";
+
+const SELECTORS = SOURCE_SELECTORS.michelin;
+
+// Star counts read back by the model from search snippets are less certain than the guide's own pages
+const FALLBACK_CONFIDENCE = 0.6;
+
+type Accolades = NonNullable<CollectionResult["accolades"]>;
+type AccoladeEnds = NonNullable<CollectionResult["accoladeEnds"]>;
+
+/** One restaurant card from a guide search page. */
+export interface MichelinCard {
+  name: string;
+  location: string | null;
+  stars: number;
+  greenStar: boolean;
+  bibGourmand: boolean;
+  year: number | null; // guide edition, when the card shows it
+}
 
 export const michelinCollector: Collector = {
   name: "Michelin Guide",
+  confidence: 0.9,
 
-  async collect(chefs: CollectorChef[]): Promise<CollectionResult[]> {
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
     const results: CollectionResult[] = [];
 
-    for (const chef of chefs) {
+    await mapConcurrent(chefs, options.concurrency, async (chef) => {
       try {
-        const accolades = await searchMichelin(chef);
-        if (accolades.length > 0) {
+        const { accolades, accoladeEnds, confidence } = await searchMichelin(chef, options, stats);
+        if (accolades.length > 0 || accoladeEnds.length > 0) {
           results.push({
             chefId: chef.id,
             source: "Michelin Guide",
+            confidence,
             accolades,
+            accoladeEnds: accoladeEnds.length > 0 ? accoladeEnds : undefined,
           });
         }
-        await sleep(500);
       } catch (err) {
         console.error(`[Michelin] Failed for ${chef.name}: ${(err as Error).message}`);
+        results.push({ chefId: chef.id, source: "Michelin Guide", error: (err as Error).message });
       }
-    }
+    });
 
     return results;
   },
 };
 
+export function parseMichelinCards(html: string): MichelinCard[] {
+  const $ = cheerio.load(html);
+  const f = SELECTORS.fields;
+
+  // Innermost matches only, so a wrapper around the result list is not read as one big card
+  const items = $(SELECTORS.item).filter((_, el) => $(el).find(SELECTORS.item).length === 0);
+  return items.toArray().map((el) => {
+    const card = $(el);
+    const text = card.text();
+    const starText = text.match(/(\d)\s*stars?\b/i);
+    const yearText = card.find(f.guideYear).text() || text.match(/michelin guide\s+(\d{4})/i)?.[1] || "";
+    const year = parseInt(yearText.match(/\d{4}/)?.[0] ?? "");
+
+    return {
+      name: card.find(f.name).first().text().trim(),
+      location: card.find(f.location).first().text().trim() || null,
+      stars: card.find(f.stars).length || (starText ? parseInt(starText[1]) : 0),
+      greenStar: card.find(f.greenStar).length > 0 || /green star/i.test(text),
+      bibGourmand: card.find(f.bibGourmand).length > 0 || /bib gourmand/i.test(text),
+      year: Number.isNaN(year) ? null : year,
+    };
+  });
+}
+
+/**
+ * The restaurant's distinctions in the card's guide year, plus a star loss against
+ * its last recorded guide and an end for the stars it no longer holds.
+ */
+export function guideAccolades(
+  chef: CollectorChef,
+  restaurant: string,
+  card: MichelinCard,
+  sourceUrl: string
+): { accolades: Accolades; accoladeEnds: AccoladeEnds } {
+  const year = card.year ?? new Date().getFullYear();
+  const accolades: Accolades = [];
+  if (card.stars > 0) {
+    accolades.push({ type: "MICHELIN_STAR", detail: `${card.stars} star${card.stars > 1 ? "s" : ""}`, restaurant, year, sourceUrl });
+  } else if (card.bibGourmand) {
+    accolades.push({ type: "MICHELIN_BIB_GOURMAND", detail: "Bib Gourmand", restaurant, year, sourceUrl });
+  }
+  if (card.greenStar) {
+    accolades.push({ type: "MICHELIN_GREEN_STAR", detail: "Green Star", restaurant, year, sourceUrl });
+  }
+
+  const accoladeEnds: AccoladeEnds = [];
+  const previous = chef.accolades
+    .filter((a) =>
+      (a.type === "MICHELIN_STAR" || a.type === "MICHELIN_BIB_GOURMAND") && a.endYear == null &&
+      a.restaurant && normalizeName(a.restaurant) === normalizeName(restaurant) &&
+      a.year != null && a.year < year
+    )
+    .sort((a, b) => b.year! - a.year!)[0];
+  const previousStars = previous?.type === "MICHELIN_STAR" ? parseInt(previous.detail || "1") : 0;
+  if (previousStars > card.stars) {
+    accolades.push({ type: "MICHELIN_STAR_LOSS", detail: `${previousStars} → ${card.stars} stars`, restaurant, year, sourceUrl });
+    accoladeEnds.push({ type: "MICHELIN_STAR", restaurant, endYear: year, endReason: "LOST", sourceUrl });
+  }
+  return { accolades, accoladeEnds };
+}
+
 async function searchMichelin(
-  chef: CollectorChef
-): Promise<NonNullable<CollectionResult["accolades"]>> {
-  // Primary: search guide.michelin.com directly
-  try {
-    const searchUrl = `https://guide.michelin.com/en/restaurants?q=${encodeURIComponent(chef.name)}`;
-    const response = await fetchWithRetry(
-      () => axios.get(searchUrl, {
-        timeout: 10000,
-        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
-      }),
-    ) as { data: string };
-
-    const $ = cheerio.load(response.data);
-    const accolades: NonNullable<CollectionResult["accolades"]> = [];
-
-    // Look for star indicators in restaurant cards
-    $(".card__menu-content, .restaurant-card, [class*='restaurant']").each((_, el) => {
-      const text = $(el).text().toLowerCase();
-      const nameInCard = text.includes(chef.name.toLowerCase()) ||
-        (chef.currentRestaurant && text.includes(chef.currentRestaurant.toLowerCase()));
-
-      if (nameInCard) {
-        // Count star icons or look for star text
-        const starIcons = $(el).find('[class*="star"], .michelin-star, svg[class*="star"]').length;
-        const starTextMatch = text.match(/(\d)\s*star/);
-        const stars = starIcons || (starTextMatch ? parseInt(starTextMatch[1]) : 0);
-
-        if (stars > 0) {
-          accolades.push({
-            type: "MICHELIN_STAR",
-            detail: `${stars} star${stars > 1 ? "s" : ""}`,
-            sourceUrl: searchUrl,
-          });
-        }
+  chef: CollectorChef,
+  options: CollectorRunOptions,
+  stats?: ParseStats
+): Promise<{ accolades: Accolades; accoladeEnds: AccoladeEnds; confidence?: number }> {
+  // Primary: search guide.michelin.com for each restaurant
+  const accolades: Accolades = [];
+  const accoladeEnds: AccoladeEnds = [];
+  let matched = false;
+  for (const restaurant of chef.restaurants) {
+    try {
+      const searchUrl = `https://guide.michelin.com/en/restaurants?q=${encodeURIComponent(restaurant.name)}`;
+      const cards = parseMichelinCards(await httpGet(searchUrl, options));
+      recordPage(stats, cards.length);
+
+      const card = cards.find((c) => matchesRestaurant(c, restaurant));
+      if (card) {
+        matched = true;
+        const found = guideAccolades(chef, restaurant.name, card, searchUrl);
+        accolades.push(...found.accolades);
+        accoladeEnds.push(...found.accoladeEnds);
       }
-    });
-
-    if (accolades.length > 0) return accolades;
-  } catch {
-    // Primary search failed, try fallback
+    } catch {
+      // This restaurant's search failed; the others may still match
+    }
   }
+  if (matched) return { accolades, accoladeEnds };
 
   // Fallback: Google RSS search for Michelin mentions
-  return searchMichelinViaGoogle(chef);
+  return { accolades: await searchMichelinViaGoogle(chef, options), accoladeEnds, confidence: FALLBACK_CONFIDENCE };
 }
 
 async function searchMichelinViaGoogle(
-  chef: CollectorChef
-): Promise<NonNullable<CollectionResult["accolades"]>> {
+  chef: CollectorChef,
+  options: CollectorRunOptions
+): Promise<Accolades> {
   try {
     const query = encodeURIComponent(`"${chef.name}" site:guide.michelin.com`);
     const rssUrl = `https://news.google.com/rss/search?q=${query}&hl=en-US&gl=US&ceid=US:en`;
 
-    const response = await fetchWithRetry(
-      () => axios.get(rssUrl, {
-        timeout: 10000,
-        headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
-      }),
-    ) as { data: string };
+    const xml = await httpGet(rssUrl, options);
 
-    const $ = cheerio.load(response.data, { xml: true });
+    const $ = cheerio.load(xml, { xml: true });
     const snippets: string[] = [];
 
     $("item").each((_, el) => {
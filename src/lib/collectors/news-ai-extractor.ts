@@ -1,16 +1,19 @@
 /**
  * News AI Extractor: processes recent NewsItem records using Claude
- * to extract structured accolade, career, signal, and peer data.
+ * to extract structured accolade, career, signal, and peer data, including
+ * accolades a chef has lost (stars dropped, restaurant closed, title revoked).
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import axios from "axios";
 import * as cheerio from "cheerio";
 import { prisma } from "@/lib/db";
-import type { Collector, CollectionResult, CollectorChef } from "./types";
-import { sleep, fetchWithRetry } from "./types";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { ACCOLADE_END_REASONS, type AccoladeEndReason } from "@/types";
 
-const EXTRACTABLE_CATEGORIES = ["AWARD", "JOB_CHANGE", "COOKBOOK", "TV_MEDIA"];
+// RESTAURANT covers closures, which end the accolades the restaurant held
+const EXTRACTABLE_CATEGORIES = ["AWARD", "JOB_CHANGE", "COOKBOOK", "TV_MEDIA", "RESTAURANT"];
 
 const EXTRACTION_PROMPT = `You are a data extraction assistant for a chef ranking system. Given an article about a chef, extract any of the following structured data that is **explicitly stated** in the article. Do NOT infer or guess — only include data clearly mentioned.
 
@@ -18,11 +21,19 @@ Return a JSON object with these optional fields:
 {
   "accolades": [
     {
-      "type": "MICHELIN_STAR" | "JAMES_BEARD" | "WORLDS_50_BEST" | "BOCUSE_DOR" | "OTHER",
-      "detail": "string (e.g. '2 stars', 'Best New Restaurant')",
+      "type": "MICHELIN_STAR" | "JAMES_BEARD" | "WORLDS_50_BEST" | "ASIAS_50_BEST" | "LATIN_AMERICAS_50_BEST" | "BOCUSE_DOR" | "GAULT_MILLAU" | "LA_LISTE" | "OTHER",
+      "detail": "string (e.g. '2 stars', 'Best New Restaurant', '#12 World's 50 Best Restaurants', 'Gold', '4 toques', '97.5 points')",
       "year": number | null
     }
   ],
+  "accoladeEnds": [
+    {
+      "type": "MICHELIN_STAR" | "JAMES_BEARD" | "WORLDS_50_BEST" | "ASIAS_50_BEST" | "LATIN_AMERICAS_50_BEST" | "BOCUSE_DOR" | "OTHER" | null,
+      "restaurant": "string | null (the restaurant that lost it, or that closed)",
+      "reason": "LOST" | "CLOSED" | "DROPPED_OFF" | "REVOKED" | "EXPIRED",
+      "year": number | null (first year it is no longer held)
+    }
+  ],
   "careerEntries": [
     {
       "role": "string",
@@ -34,7 +45,7 @@ Return a JSON object with these optional fields:
   ],
   "publicSignals": [
     {
-      "platform": "INSTAGRAM" | "YOUTUBE" | "COOKBOOK" | "TV" | "OTHER",
+      "platform": "INSTAGRAM" | "YOUTUBE" | "TIKTOK" | "COOKBOOK" | "TV" | "OTHER",
       "metric": "string (e.g. '1.2M followers', '5 books published')",
       "value": number | null
     }
@@ -50,16 +61,10 @@ Return a JSON object with these optional fields:
 
 Only include fields that have data. Return empty object {} if nothing extractable is found. Return ONLY valid JSON, no markdown fences.`;
 
-async function fetchArticleText(url: string): Promise<string> {
-  const response = await fetchWithRetry(
-    () => axios.get(url, {
-      timeout: 10000,
-      headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
-      maxRedirects: 3,
-    }),
-  ) as { data: string };
+async function fetchArticleText(url: string, options: CollectorRunOptions): Promise<string> {
+  const html = await httpGet(url, { ...options, maxRedirects: 3 });
 
-  const $ = cheerio.load(response.data);
+  const $ = cheerio.load(html);
 
   // Remove non-content elements
   $("script, style, nav, footer, header, aside, .ad, .sidebar").remove();
@@ -77,22 +82,20 @@ async function fetchArticleText(url: string): Promise<string> {
 
 export const newsAiExtractor: Collector = {
   name: "News AI Extractor",
+  confidence: 0.6,
 
-  async collect(chefs: CollectorChef[]): Promise<CollectionResult[]> {
+  async collect(chefs: CollectorChef[], options: CollectorRunOptions = DEFAULT_RUN_OPTIONS): Promise<CollectionResult[]> {
     const anthropic = new Anthropic();
     const results: CollectionResult[] = [];
 
-    // Build chef name -> id lookup
-    const chefNameMap = new Map<string, string>();
-    for (const chef of chefs) {
-      chefNameMap.set(chef.name.toLowerCase(), chef.id);
-    }
+    const chefIds = new Set(chefs.map((c) => c.id));
 
-    // Find unprocessed news items in extractable categories
+    // Find unprocessed news items in extractable categories about the chefs being collected
     const newsItems = await prisma.newsItem.findMany({
       where: {
         dataExtracted: false,
         category: { in: EXTRACTABLE_CATEGORIES },
+        chefs: { some: { chefId: { in: [...chefIds] } } },
       },
       include: {
         chefs: { include: { chef: { select: { id: true, name: true } } } },
@@ -103,12 +106,14 @@ export const newsAiExtractor: Collector = {
 
     if (newsItems.length === 0) return results;
 
-    for (const item of newsItems) {
+    await mapConcurrent(newsItems, options.concurrency, async (item) => {
+      // Chefs outside this run (a single-chef run or a chef subset) get their share on a later run
+      const links = item.chefs.filter((c) => chefIds.has(c.chefId));
       try {
         // Fetch article text
         let articleText: string;
         try {
-          articleText = await fetchArticleText(item.url);
+          articleText = await fetchArticleText(item.url, options);
         } catch {
           // If we can't fetch, use the summary
           articleText = item.summary || item.title;
@@ -119,11 +124,11 @@ export const newsAiExtractor: Collector = {
             where: { id: item.id },
             data: { dataExtracted: true },
           });
-          continue;
+          return;
         }
 
         // Call Claude for extraction
-        const linkedChefNames = item.chefs.map((c) => c.chef.name).join(", ");
+        const linkedChefNames = links.map((c) => c.chef.name).join(", ");
         const message = await anthropic.messages.create({
           model: "claude-sonnet-4-5-20250929",
           max_tokens: 1024,
@@ -138,6 +143,7 @@ export const newsAiExtractor: Collector = {
         const responseText = message.content[0].type === "text" ? message.content[0].text : "";
         let extracted: {
           accolades?: { type: string; detail?: string; year?: number }[];
+          accoladeEnds?: { type?: string; restaurant?: string; reason: string; year?: number }[];
           careerEntries?: { role: string; restaurant: string; city?: string; startYear?: number; isCurrent?: boolean }[];
           publicSignals?: { platform: string; metric?: string; value?: number }[];
           peerStandings?: { type: string; detail?: string; relatedChef?: string }[];
@@ -153,14 +159,15 @@ export const newsAiExtractor: Collector = {
             where: { id: item.id },
             data: { dataExtracted: true },
           });
-          continue;
+          return;
         }
 
         // Map extracted data to CollectionResults for each linked chef
-        for (const chefLink of item.chefs) {
+        for (const chefLink of links) {
           const result: CollectionResult = {
             chefId: chefLink.chefId,
             source: "News AI Extractor",
+            newsItemId: item.id,
           };
 
           if (extracted.accolades?.length) {
@@ -172,6 +179,20 @@ export const newsAiExtractor: Collector = {
             }));
           }
 
+          // An end without a year takes effect from when the article was published
+          const ends = extracted.accoladeEnds?.filter((e) =>
+            (e.type || e.restaurant) && ACCOLADE_END_REASONS.includes(e.reason as AccoladeEndReason)
+          );
+          if (ends?.length) {
+            result.accoladeEnds = ends.map((e) => ({
+              type: e.type ?? undefined,
+              restaurant: e.restaurant ?? undefined,
+              endYear: e.year ?? item.publishedAt.getFullYear(),
+              endReason: e.reason,
+              sourceUrl: item.url,
+            }));
+          }
+
           if (extracted.careerEntries?.length) {
             result.careerEntries = extracted.careerEntries.map((c) => ({
               role: c.role,
@@ -202,23 +223,31 @@ export const newsAiExtractor: Collector = {
           }
 
           // Only add if there's actual data
-          if (result.accolades || result.careerEntries || result.publicSignals || result.peerStandings) {
+          if (result.accolades || result.accoladeEnds || result.careerEntries || result.publicSignals || result.peerStandings) {
             results.push(result);
           }
         }
 
-        // Mark as processed
-        await prisma.newsItem.update({
-          where: { id: item.id },
-          data: { dataExtracted: true },
-        });
-
-        await sleep(500);
+        // Mark as processed once every linked chef has had the article extracted
+        if (links.length === item.chefs.length) {
+          await prisma.newsItem.update({
+            where: { id: item.id },
+            data: { dataExtracted: true },
+          });
+        }
       } catch (err) {
         // Per-item isolation: log and continue
         console.error(`[News AI Extractor] Failed to process "${item.title}": ${(err as Error).message}`);
+        for (const chefLink of links) {
+          results.push({
+            chefId: chefLink.chefId,
+            source: "News AI Extractor",
+            newsItemId: item.id,
+            error: `"${item.title}": ${(err as Error).message}`,
+          });
+        }
       }
-    }
+    });
 
     return results;
   },
@@ -1,41 +1,125 @@
 /**
- * Orchestrator: runs all collectors, deduplicates results, upserts into database.
+ * Orchestrator: runs the registered collectors that are enabled and due,
+ * deduplicates results and queues them for review (see review-queue.ts).
+ * Each call is recorded as a CollectionRun (see run-history.ts). A run can
+ * also target one chef, refreshing just their record on demand.
  */
 
+import { randomUUID } from "crypto";
 import { prisma } from "@/lib/db";
 import type {
-  Collector,
   CollectionResult,
   CollectionSummary,
   CollectorChef,
   CollectorLog,
 } from "./types";
-import { newsAiExtractor } from "./news-ai-extractor";
-import { jamesBeardCollector } from "./james-beard";
-import { worlds50BestCollector } from "./worlds-50-best";
-import { michelinCollector } from "./michelin";
-import { instagramCollector } from "./instagram";
-
-const ALL_COLLECTORS: Collector[] = [
-  newsAiExtractor,
-  michelinCollector,
-  jamesBeardCollector,
-  worlds50BestCollector,
-  instagramCollector,
-];
-
-export async function runCollection(): Promise<CollectionSummary> {
-  const chefs: CollectorChef[] = await prisma.chef.findMany({
-    where: { isArchived: false },
-    select: { id: true, name: true, slug: true, currentRestaurant: true },
+import { mapConcurrent } from "./types";
+import { stageResults } from "@/lib/review-queue";
+import { getCollectorDefinition, isDue, markCollectorRun, resolveCollectors } from "./registry";
+import { failRun, finishRun, startRun, type OutcomeRow } from "./run-history";
+import { emptyParseStats, isScrapedSource, selectorsBroken, SOURCE_SELECTORS } from "./selectors";
+
+const MAX_PARALLEL_COLLECTORS = 3;
+
+export interface RunCollectionOptions {
+  // Run only these collectors, regardless of schedule; disabled ones are still skipped
+  collectorIds?: string[];
+  // Collect for this chef only; every enabled collector runs, due or not, unless collectorIds narrows it
+  chefSlug?: string;
+  onProgress?: (progress: { current: number; total: number; message: string }) => void;
+}
+
+type ChefRow = Awaited<ReturnType<typeof loadChefs>>[number];
+
+function loadChefs(slug?: string) {
+  return prisma.chef.findMany({
+    where: { isArchived: false, ...(slug ? { slug } : {}) },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      currentRestaurant: true,
+      city: true,
+      careerEntries: { where: { isCurrent: true }, select: { restaurant: true, city: true } },
+      accolades: { select: { type: true, detail: true, restaurant: true, year: true, endYear: true } },
+      socialHandles: { select: { platform: true, handle: true } },
+    },
+  });
+}
+
+// The current restaurant first, then any other current positions, one entry per restaurant name
+function toCollectorChef({ careerEntries, ...chef }: ChefRow): CollectorChef {
+  const restaurants: CollectorChef["restaurants"] = [];
+  const add = (name: string | null, city: string | null) => {
+    if (name && !restaurants.some((r) => r.name.toLowerCase() === name.toLowerCase())) restaurants.push({ name, city });
+  };
+  add(chef.currentRestaurant, chef.city);
+  for (const entry of careerEntries) add(entry.restaurant, entry.city ?? chef.city);
+  return { ...chef, restaurants };
+}
+
+export async function runCollection(options: RunCollectionOptions = {}): Promise<CollectionSummary> {
+  const { collectorIds, chefSlug, onProgress } = options;
+  for (const id of collectorIds ?? []) {
+    if (!getCollectorDefinition(id)) throw new Error(`Unknown collector: ${id}`);
+  }
+
+  const chefs = (await loadChefs(chefSlug)).map(toCollectorChef);
+  if (chefSlug && chefs.length === 0) throw new Error(`Unknown chef: ${chefSlug}`);
+
+  const runId = randomUUID();
+  await startRun(runId, collectorIds, chefSlug ? chefs[0].id : undefined);
+  try {
+    return await executeRun(runId, chefs, collectorIds, !!chefSlug, onProgress);
+  } catch (err) {
+    await failRun(runId, (err as Error).message);
+    throw err;
+  }
+}
+
+async function executeRun(
+  runId: string,
+  chefs: CollectorChef[],
+  collectorIds: string[] | undefined,
+  singleChef: boolean,
+  onProgress: RunCollectionOptions["onProgress"]
+): Promise<CollectionSummary> {
+  const now = new Date();
+  const skipped: CollectionSummary["skipped"] = [];
+  const planned = (await resolveCollectors()).filter(({ definition, settings, lastRunAt }) => {
+    const skip = (reason: string) => {
+      skipped.push({ collectorId: definition.id, source: definition.collector.name, reason });
+      return false;
+    };
+    if (collectorIds && !collectorIds.includes(definition.id)) return false;
+    if (!settings.enabled) return skip("disabled");
+    if (singleChef) {
+      if (settings.chefSlugs && !settings.chefSlugs.includes(chefs[0].slug)) return skip("chef not in its chef subset");
+      return true;
+    }
+    if (!collectorIds && !isDue(settings.schedule, lastRunAt, now)) {
+      return skip(settings.schedule === "manual" ? "manual only" : `not due (${settings.schedule})`);
+    }
+    return true;
   });
 
-  const logs: CollectorLog[] = [];
   const allResults: CollectionResult[] = [];
+  const resultCollectorIds: string[] = []; // collector id for each entry in allResults
+  const processedChefs = new Set<string>();
+  let finished = 0;
+  onProgress?.({ current: 0, total: planned.length, message: `Running ${planned.map((p) => p.definition.collector.name).join(", ")}...` });
+
+  // Collectors run side by side; the shared HTTP client keeps each host within its rate limit
+  const logs = await mapConcurrent(planned, MAX_PARALLEL_COLLECTORS, async ({ definition, settings }) => {
+    const collector = definition.collector;
+    const subset: CollectorChef[] = settings.chefSlugs
+      ? chefs.filter((c) => settings.chefSlugs!.includes(c.slug))
+      : chefs;
+    for (const chef of subset) processedChefs.add(chef.id);
 
-  for (const collector of ALL_COLLECTORS) {
     const start = Date.now();
     const log: CollectorLog = {
+      collectorId: definition.id,
       source: collector.name,
       status: "SUCCESS",
       itemsFound: 0,
@@ -43,17 +127,40 @@ export async function runCollection(): Promise<CollectionSummary> {
       durationMs: 0,
     };
 
+    const parse = isScrapedSource(definition.id) ? emptyParseStats() : undefined;
     try {
-      const results = await collector.collect(chefs);
-      log.itemsFound = results.length;
-      allResults.push(...results);
+      const results = await collector.collect(subset, {
+        rateLimitMs: settings.rateLimitMs,
+        maxRetries: settings.maxRetries,
+        retryBaseDelayMs: settings.retryBaseDelayMs,
+        concurrency: settings.concurrency,
+      }, parse);
+      // A collector that reads shared data could return other chefs; only the subset belongs to this run
+      const subsetIds = new Set(subset.map((c) => c.id));
+      const inSubset = results.filter((r) => subsetIds.has(r.chefId));
+      log.itemsFound = inSubset.filter((r) => !r.error).length;
+      for (const r of inSubset) {
+        allResults.push({ ...r, confidence: r.confidence ?? collector.confidence });
+        resultCollectorIds.push(definition.id);
+      }
     } catch (err) {
       log.status = "FAILED";
       log.errors.push((err as Error).message);
     }
 
+    // Pages came back but the parser found nothing on any of them: the site changed under us
+    if (parse && isScrapedSource(definition.id)) {
+      log.parse = parse;
+      log.selectorsBroken = selectorsBroken(definition.id, parse);
+      if (log.selectorsBroken) {
+        if (log.status === "SUCCESS") log.status = "PARTIAL";
+        log.errors.push(`Selectors broken: ${parse.pagesLoaded} pages loaded, none matched "${SOURCE_SELECTORS[definition.id].item}"`);
+      }
+    }
+
     log.durationMs = Date.now() - start;
-    logs.push(log);
+    // One chef's refresh doesn't stand in for the scheduled run over everyone
+    if (!singleChef) await markCollectorRun(definition);
 
     // Log to DataSource
     await prisma.dataSource.create({
@@ -66,156 +173,55 @@ export async function runCollection(): Promise<CollectionSummary> {
           : `Found ${log.itemsFound} items in ${log.durationMs}ms`,
       },
     });
-  }
 
-  // Deduplicate and upsert results
-  const stats = await upsertResults(allResults);
+    finished++;
+    onProgress?.({ current: finished, total: planned.length, message: `Finished ${collector.name} (${log.itemsFound} items)` });
+    return log;
+  });
+
+  onProgress?.({ current: planned.length, total: planned.length, message: "Queueing results for review..." });
+
+  // Deduplicate and stage results; nothing reaches the live tables until approved
+  const { outcomes, ...stats } = await stageResults(allResults, runId);
+
+  // Fold results into one outcome per collector and chef for the run history
+  const outcomeRows = new Map<string, OutcomeRow>();
+  allResults.forEach((result, i) => {
+    const key = `${resultCollectorIds[i]}\u0000${result.chefId}`;
+    const row = outcomeRows.get(key) ?? {
+      collectorId: resultCollectorIds[i],
+      chefId: result.chefId,
+      found: 0,
+      queued: 0,
+      duplicates: 0,
+      error: null,
+    };
+    row.found += outcomes[i].found;
+    row.queued += outcomes[i].queued;
+    row.duplicates += outcomes[i].duplicates;
+    if (result.error) row.error = row.error ? `${row.error}; ${result.error}` : result.error;
+    outcomeRows.set(key, row);
+  });
 
   const hasSuccess = logs.some((l) => l.status === "SUCCESS");
   const hasFailed = logs.some((l) => l.status === "FAILED");
-  const overallStatus = hasSuccess && hasFailed ? "PARTIAL" : hasFailed ? "FAILED" : "SUCCESS";
+  const hasPartial = logs.some((l) => l.status === "PARTIAL");
+  const overallStatus = (hasSuccess && hasFailed) || hasPartial ? "PARTIAL" : hasFailed ? "FAILED" : "SUCCESS";
 
-  return {
+  const summary: CollectionSummary = {
     status: overallStatus,
-    totalChefsProcessed: chefs.length,
+    totalChefsProcessed: processedChefs.size,
     newAccolades: stats.newAccolades,
+    endedAccolades: stats.endedAccolades,
     updatedSignals: stats.updatedSignals,
     newCareerEntries: stats.newCareerEntries,
     newPeerStandings: stats.newPeerStandings,
+    newSocialHandles: stats.newSocialHandles,
     logs,
+    skipped,
+    runId,
     timestamp: new Date().toISOString(),
   };
-}
-
-interface UpsertStats {
-  newAccolades: number;
-  updatedSignals: number;
-  newCareerEntries: number;
-  newPeerStandings: number;
-}
-
-async function upsertResults(results: CollectionResult[]): Promise<UpsertStats> {
-  const stats: UpsertStats = {
-    newAccolades: 0,
-    updatedSignals: 0,
-    newCareerEntries: 0,
-    newPeerStandings: 0,
-  };
-
-  for (const result of results) {
-    // Accolades: skip if same chefId + type + detail + year exists
-    if (result.accolades) {
-      for (const accolade of result.accolades) {
-        const existing = await prisma.accolade.findFirst({
-          where: {
-            chefId: result.chefId,
-            type: accolade.type,
-            detail: accolade.detail || null,
-            year: accolade.year || null,
-          },
-        });
-        if (!existing) {
-          await prisma.accolade.create({
-            data: {
-              chefId: result.chefId,
-              type: accolade.type,
-              detail: accolade.detail || null,
-              year: accolade.year || null,
-              sourceUrl: accolade.sourceUrl || null,
-            },
-          });
-          stats.newAccolades++;
-        }
-      }
-    }
-
-    // PublicSignal: upsert by chefId + platform (update value if newer)
-    if (result.publicSignals) {
-      for (const signal of result.publicSignals) {
-        const existing = await prisma.publicSignal.findFirst({
-          where: {
-            chefId: result.chefId,
-            platform: signal.platform,
-          },
-        });
-        if (existing) {
-          await prisma.publicSignal.update({
-            where: { id: existing.id },
-            data: {
-              metric: signal.metric || existing.metric,
-              value: signal.value ?? existing.value,
-              sourceUrl: signal.sourceUrl || existing.sourceUrl,
-            },
-          });
-          stats.updatedSignals++;
-        } else {
-          await prisma.publicSignal.create({
-            data: {
-              chefId: result.chefId,
-              platform: signal.platform,
-              metric: signal.metric || null,
-              value: signal.value ?? null,
-              sourceUrl: signal.sourceUrl || null,
-            },
-          });
-          stats.updatedSignals++;
-        }
-      }
-    }
-
-    // CareerEntry: skip if same chefId + restaurant + role exists
-    if (result.careerEntries) {
-      for (const entry of result.careerEntries) {
-        const existing = await prisma.careerEntry.findFirst({
-          where: {
-            chefId: result.chefId,
-            restaurant: entry.restaurant,
-            role: entry.role,
-          },
-        });
-        if (!existing) {
-          await prisma.careerEntry.create({
-            data: {
-              chefId: result.chefId,
-              role: entry.role,
-              restaurant: entry.restaurant,
-              city: entry.city || null,
-              startYear: entry.startYear || null,
-              endYear: entry.endYear || null,
-              isCurrent: entry.isCurrent || false,
-              sourceUrl: entry.sourceUrl || null,
-            },
-          });
-          stats.newCareerEntries++;
-        }
-      }
-    }
-
-    // PeerStanding: skip if same chefId + type + relatedChef exists
-    if (result.peerStandings) {
-      for (const peer of result.peerStandings) {
-        const existing = await prisma.peerStanding.findFirst({
-          where: {
-            chefId: result.chefId,
-            type: peer.type,
-            relatedChef: peer.relatedChef || null,
-          },
-        });
-        if (!existing) {
-          await prisma.peerStanding.create({
-            data: {
-              chefId: result.chefId,
-              type: peer.type,
-              detail: peer.detail || null,
-              relatedChef: peer.relatedChef || null,
-              sourceUrl: peer.sourceUrl || null,
-            },
-          });
-          stats.newPeerStandings++;
-        }
-      }
-    }
-  }
-
-  return stats;
+  await finishRun(summary, [...outcomeRows.values()]);
+  return summary;
 }
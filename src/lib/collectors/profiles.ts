@@ -0,0 +1,61 @@
+/**
+ * Shared helpers for the social profile collectors: finding the profile URL
+ * known for each chef on a platform, and reading audience counts.
+ */
+
+import { prisma } from "@/lib/db";
+import { parseSocialHandle, socialProfileUrl } from "@/lib/social-handles";
+import type { SocialPlatform } from "@/types";
+import type { CollectorChef } from "./types";
+
+export function parseFollowerCount(text: string): number | null {
+  // Handle formats like "1.2M", "500K", "12,345", "1,234,567"
+  const match = text.match(/([\d,.]+)\s*([BbMmKk])?/);
+  if (!match) return null;
+
+  let num = parseFloat(match[1].replace(/,/g, ""));
+  const suffix = match[2]?.toUpperCase();
+  if (suffix === "B") num *= 1_000_000_000;
+  if (suffix === "M") num *= 1_000_000;
+  if (suffix === "K") num *= 1_000;
+
+  return Number.isNaN(num) ? null : Math.round(num);
+}
+
+/** "1.2M followers", "350K subscribers", "812 followers" */
+export function formatCount(count: number, noun: string): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M ${noun}`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(0)}K ${noun}`;
+  return `${count} ${noun}`;
+}
+
+/**
+ * Profile URL per chef for a platform: the chef's managed handle when there is
+ * one, else from their existing signal on it (its source URL when that points
+ * at the platform, else an @handle in its metric).
+ */
+export async function knownProfiles(
+  chefs: CollectorChef[],
+  platform: SocialPlatform,
+  host: string
+): Promise<[string, string][]> {
+  const profiles = new Map<string, string>();
+  for (const chef of chefs) {
+    const managed = chef.socialHandles.find((h) => h.platform === platform);
+    if (managed) profiles.set(chef.id, socialProfileUrl(platform, managed.handle));
+  }
+
+  const signals = await prisma.publicSignal.findMany({
+    where: { platform, chefId: { in: chefs.filter((c) => !profiles.has(c.id)).map((c) => c.id) } },
+    select: { chefId: true, sourceUrl: true, metric: true },
+  });
+  for (const signal of signals) {
+    if (signal.sourceUrl?.includes(host)) profiles.set(signal.chefId, signal.sourceUrl);
+  }
+  for (const signal of signals) {
+    if (profiles.has(signal.chefId)) continue;
+    const handle = parseSocialHandle(platform, signal.metric?.match(/@([\w.]+)/)?.[1] ?? "");
+    if (handle) profiles.set(signal.chefId, socialProfileUrl(platform, handle));
+  }
+  return [...profiles];
+}
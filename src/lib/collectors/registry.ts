@@ -0,0 +1,216 @@
+/**
+ * Collector registry: every collector is registered here once with an id and
+ * default settings. Saved CollectorSetting rows override the defaults, and
+ * runCollection only runs what the registry and settings allow.
+ */
+
+import { prisma } from "@/lib/db";
+import type { Collector, CollectorInfo, CollectorSchedule, CollectorSettings } from "./types";
+import { COLLECTOR_SCHEDULES, DEFAULT_RUN_OPTIONS } from "./types";
+import { newsAiExtractor } from "./news-ai-extractor";
+import { jamesBeardCollector } from "./james-beard";
+import { worlds50BestCollector } from "./worlds-50-best";
+import { michelinCollector } from "./michelin";
+import { instagramCollector } from "./instagram";
+import { bocuseDorCollector } from "./bocuse-dor";
+import { gaultMillauCollector } from "./gault-millau";
+import { laListeCollector } from "./la-liste";
+import { youtubeCollector } from "./youtube";
+import { tiktokCollector } from "./tiktok";
+import { cookbooksCollector } from "./cookbooks";
+import { handleDiscoveryCollector } from "./handle-discovery";
+
+export interface CollectorDefinition {
+  id: string;
+  collector: Collector;
+  description: string;
+  defaults: CollectorSettings;
+}
+
+export interface ResolvedCollector {
+  definition: CollectorDefinition;
+  settings: CollectorSettings;
+  lastRunAt: Date | null;
+}
+
+const DEFAULT_SETTINGS: CollectorSettings = {
+  ...DEFAULT_RUN_OPTIONS,
+  enabled: true,
+  schedule: "every_run",
+  chefSlugs: null,
+};
+
+const SCHEDULE_INTERVAL_MS: Record<CollectorSchedule, number | null> = {
+  every_run: 0,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+  manual: null,
+};
+
+const registry = new Map<string, CollectorDefinition>();
+
+/** Add a collector to the registry. Registration order is run order. */
+export function registerCollector(
+  id: string,
+  collector: Collector,
+  description: string,
+  defaults: Partial<CollectorSettings> = {}
+): void {
+  if (registry.has(id)) throw new Error(`Collector "${id}" is already registered`);
+  registry.set(id, { id, collector, description, defaults: { ...DEFAULT_SETTINGS, ...defaults } });
+}
+
+// Each item makes an AI call, so keep fewer in flight
+registerCollector("news-ai", newsAiExtractor, "Extracts accolades, career moves and peers from unprocessed news articles", { concurrency: 2 });
+registerCollector("michelin", michelinCollector, "Searches guide.michelin.com for star ratings");
+registerCollector("james-beard", jamesBeardCollector, "Searches jamesbeard.org for awards and nominations");
+registerCollector("worlds-50-best", worlds50BestCollector, "Matches restaurants against the World's 50 Best 1-100, Asia and Latin America lists");
+// Results only change once per edition
+registerCollector("bocuse-dor", bocuseDorCollector, "Matches chefs against the Bocuse d'Or winners of every edition", { schedule: "monthly" });
+registerCollector("gault-millau", gaultMillauCollector, "Searches the Gault&Millau guide for toques and scores out of 20");
+registerCollector("la-liste", laListeCollector, "Searches La Liste for restaurant scores out of 100");
+// Profile pages fail often and retrying rarely helps
+registerCollector("instagram", instagramCollector, "Reads follower counts from known Instagram profiles", { maxRetries: 1, concurrency: 2 });
+registerCollector("youtube", youtubeCollector, "Reads subscriber counts from known YouTube channels", { concurrency: 2 });
+registerCollector("tiktok", tiktokCollector, "Reads follower counts from known TikTok profiles", { maxRetries: 1, concurrency: 2 });
+// Bibliographies change slowly
+registerCollector("cookbooks", cookbooksCollector, "Counts each chef's books in the Open Library catalogue", { schedule: "monthly" });
+// Proposals wait for review, so there is no point finding them more often than they are reviewed
+registerCollector("handle-discovery", handleDiscoveryCollector, "Proposes social handles from Wikidata and chefs' own websites", { schedule: "monthly" });
+
+export function listCollectorDefinitions(): CollectorDefinition[] {
+  return [...registry.values()];
+}
+
+export function getCollectorDefinition(id: string): CollectorDefinition | undefined {
+  return registry.get(id);
+}
+
+/** Whether a collector's schedule makes it due; manual collectors never are. */
+export function isDue(schedule: CollectorSchedule, lastRunAt: Date | null, now = new Date()): boolean {
+  const interval = SCHEDULE_INTERVAL_MS[schedule];
+  if (interval === null) return false;
+  if (!lastRunAt) return true;
+  return now.getTime() - lastRunAt.getTime() >= interval;
+}
+
+function parseSlugs(raw: string | null): string[] | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === "string") : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Every registered collector with its saved settings merged over the defaults. */
+export async function resolveCollectors(): Promise<ResolvedCollector[]> {
+  const rows = await prisma.collectorSetting.findMany();
+  const rowMap = new Map(rows.map((r) => [r.collectorId, r]));
+
+  return listCollectorDefinitions().map((definition) => {
+    const row = rowMap.get(definition.id);
+    if (!row) return { definition, settings: definition.defaults, lastRunAt: null };
+    return {
+      definition,
+      settings: {
+        enabled: row.enabled,
+        rateLimitMs: row.rateLimitMs,
+        maxRetries: row.maxRetries,
+        retryBaseDelayMs: row.retryBaseDelayMs,
+        concurrency: row.concurrency,
+        schedule: COLLECTOR_SCHEDULES.includes(row.schedule as CollectorSchedule)
+          ? (row.schedule as CollectorSchedule)
+          : definition.defaults.schedule,
+        chefSlugs: parseSlugs(row.chefSlugs),
+      },
+      lastRunAt: row.lastRunAt,
+    };
+  });
+}
+
+export async function listCollectors(): Promise<CollectorInfo[]> {
+  const now = new Date();
+  return (await resolveCollectors()).map(({ definition, settings, lastRunAt }) => ({
+    id: definition.id,
+    name: definition.collector.name,
+    description: definition.description,
+    settings,
+    defaults: definition.defaults,
+    lastRunAt: lastRunAt?.toISOString() ?? null,
+    due: settings.enabled && isDue(settings.schedule, lastRunAt, now),
+  }));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nonNegativeInt(value: unknown, field: string, fallback: number, min = 0): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    throw new Error(`${field} must be an integer of at least ${min}`);
+  }
+  return value;
+}
+
+/** Validate a partial settings update against the current settings. Throws on invalid input. */
+export function parseCollectorSettings(input: unknown, base: CollectorSettings): CollectorSettings {
+  if (!isPlainObject(input)) throw new Error("settings must be an object");
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    throw new Error("enabled must be a boolean");
+  }
+  const schedule = input.schedule ?? base.schedule;
+  if (!COLLECTOR_SCHEDULES.includes(schedule as CollectorSchedule)) {
+    throw new Error(`schedule must be one of ${COLLECTOR_SCHEDULES.join(", ")}`);
+  }
+
+  let chefSlugs = base.chefSlugs;
+  if (input.chefSlugs !== undefined) {
+    if (input.chefSlugs === null) {
+      chefSlugs = null;
+    } else if (Array.isArray(input.chefSlugs) && input.chefSlugs.every((s) => typeof s === "string")) {
+      const slugs = [...new Set((input.chefSlugs as string[]).map((s) => s.trim()).filter(Boolean))];
+      chefSlugs = slugs.length > 0 ? slugs : null;
+    } else {
+      throw new Error("chefSlugs must be an array of chef slugs or null");
+    }
+  }
+
+  return {
+    enabled: (input.enabled as boolean | undefined) ?? base.enabled,
+    rateLimitMs: nonNegativeInt(input.rateLimitMs, "rateLimitMs", base.rateLimitMs),
+    maxRetries: nonNegativeInt(input.maxRetries, "maxRetries", base.maxRetries, 1),
+    retryBaseDelayMs: nonNegativeInt(input.retryBaseDelayMs, "retryBaseDelayMs", base.retryBaseDelayMs),
+    concurrency: nonNegativeInt(input.concurrency, "concurrency", base.concurrency, 1),
+    schedule: schedule as CollectorSchedule,
+    chefSlugs,
+  };
+}
+
+export async function saveCollectorSettings(id: string, settings: CollectorSettings): Promise<void> {
+  const data = { ...settings, chefSlugs: settings.chefSlugs ? JSON.stringify(settings.chefSlugs) : null };
+  await prisma.collectorSetting.upsert({
+    where: { collectorId: id },
+    update: data,
+    create: { collectorId: id, ...data },
+  });
+}
+
+/** Stamp a run so the schedule can tell when the collector is next due. */
+export async function markCollectorRun(definition: CollectorDefinition, at = new Date()): Promise<void> {
+  const { chefSlugs, ...rest } = definition.defaults;
+  await prisma.collectorSetting.upsert({
+    where: { collectorId: definition.id },
+    update: { lastRunAt: at },
+    create: {
+      collectorId: definition.id,
+      ...rest,
+      chefSlugs: chefSlugs ? JSON.stringify(chefSlugs) : null,
+      lastRunAt: at,
+    },
+  });
+}
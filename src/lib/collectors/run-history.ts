@@ -0,0 +1,211 @@
+/**
+ * Collection run history: every runCollection call is stored as a CollectionRun
+ * (keyed by the runId stamped on its records) with per-collector, per-chef
+ * outcomes, so past runs can be browsed and compared.
+ */
+
+import { prisma } from "@/lib/db";
+import type { ChangeKind, ChangeStatus } from "@/types";
+import type {
+  CollectionRunData,
+  CollectionRunDetail,
+  CollectionRunStatus,
+  CollectionSummary,
+  CollectorLog,
+  CollectorRunDiff,
+} from "./types";
+
+// How far back to look for a collector's previous run when diffing
+const PREVIOUS_RUN_LOOKBACK = 50;
+
+export interface OutcomeRow {
+  collectorId: string;
+  chefId: string;
+  found: number;
+  queued: number;
+  duplicates: number;
+  error: string | null;
+}
+
+export async function startRun(runId: string, collectorIds?: string[], chefId?: string): Promise<void> {
+  await prisma.collectionRun.create({
+    data: { id: runId, collectorIds: collectorIds ? JSON.stringify(collectorIds) : null, chefId: chefId ?? null },
+  });
+}
+
+/** Records a run queued for review, across every kind. */
+export function queuedTotal(summary: CollectionSummary): number {
+  return summary.newAccolades + summary.endedAccolades + summary.updatedSignals
+    + summary.newCareerEntries + summary.newPeerStandings + summary.newSocialHandles;
+}
+
+/** "3 accolades, 1 signals queued for review.", with any skipped collectors, as shown after a run. */
+export function describeQueued(summary: CollectionSummary): string {
+  const counts = [
+    summary.newAccolades > 0 ? `${summary.newAccolades} accolades` : null,
+    summary.endedAccolades > 0 ? `${summary.endedAccolades} accolade losses` : null,
+    summary.updatedSignals > 0 ? `${summary.updatedSignals} signals` : null,
+    summary.newCareerEntries > 0 ? `${summary.newCareerEntries} career entries` : null,
+    summary.newPeerStandings > 0 ? `${summary.newPeerStandings} peer standings` : null,
+    summary.newSocialHandles > 0 ? `${summary.newSocialHandles} social handles` : null,
+  ].filter(Boolean).join(", ") || "No new data found";
+  const queued = queuedTotal(summary) > 0 ? " queued for review" : "";
+  const skipped = summary.skipped.length > 0
+    ? ` Skipped ${summary.skipped.map((s) => `${s.source} (${s.reason})`).join(", ")}.`
+    : "";
+  return `${counts}${queued}.${skipped}`;
+}
+
+/** Store a finished run's summary and outcomes. Chefs with nothing found and no error are left out. */
+export async function finishRun(summary: CollectionSummary, outcomes: OutcomeRow[]): Promise<void> {
+  await prisma.collectionRunOutcome.createMany({
+    data: outcomes
+      .filter((o) => o.found > 0 || o.error)
+      .map((o) => ({ runId: summary.runId, ...o })),
+  });
+  await prisma.collectionRun.update({
+    where: { id: summary.runId },
+    data: {
+      status: summary.status,
+      chefsProcessed: summary.totalChefsProcessed,
+      queued: queuedTotal(summary),
+      logs: JSON.stringify(summary.logs),
+      skipped: JSON.stringify(summary.skipped),
+      finishedAt: new Date(summary.timestamp),
+    },
+  });
+}
+
+/** Mark a run that stopped before producing a summary. */
+export async function failRun(runId: string, error: string): Promise<void> {
+  await prisma.collectionRun.update({
+    where: { id: runId },
+    data: { status: "FAILED", error, finishedAt: new Date() },
+  });
+}
+
+const RUN_CHEF = { chef: { select: { name: true, slug: true } } } as const;
+
+type RunRow = Awaited<ReturnType<typeof prisma.collectionRun.findFirstOrThrow<{ include: typeof RUN_CHEF }>>>;
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toRunData(run: RunRow): CollectionRunData {
+  return {
+    id: run.id,
+    status: run.status as CollectionRunStatus,
+    collectorIds: parseJson<string[] | null>(run.collectorIds, null),
+    chef: run.chef,
+    chefsProcessed: run.chefsProcessed,
+    queued: run.queued,
+    logs: parseJson<CollectorLog[]>(run.logs, []),
+    skipped: parseJson<CollectionSummary["skipped"]>(run.skipped, []),
+    error: run.error,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export async function listRuns(limit = 50): Promise<CollectionRunData[]> {
+  const runs = await prisma.collectionRun.findMany({ include: RUN_CHEF, orderBy: { startedAt: "desc" }, take: limit });
+  return runs.map(toRunData);
+}
+
+/** The log a collector left in its most recent finished run, or null if it has not run yet. */
+export async function lastCollectorLog(collectorId: string): Promise<(CollectorLog & { runId: string; startedAt: string }) | null> {
+  // A run for one chef parses too few pages to say anything about a source's selectors
+  const runs = await prisma.collectionRun.findMany({
+    where: { finishedAt: { not: null }, chefId: null },
+    select: { id: true, logs: true, startedAt: true },
+    orderBy: { startedAt: "desc" },
+    take: PREVIOUS_RUN_LOOKBACK,
+  });
+  for (const run of runs) {
+    const log = parseJson<CollectorLog[]>(run.logs, []).find((l) => l.collectorId === collectorId);
+    if (log) return { ...log, runId: run.id, startedAt: run.startedAt.toISOString() };
+  }
+  return null;
+}
+
+function collectorTotals(outcomes: { collectorId: string; found: number; queued: number; error: string | null }[]) {
+  const totals = new Map<string, { found: number; queued: number; errors: number }>();
+  for (const o of outcomes) {
+    const t = totals.get(o.collectorId) ?? { found: 0, queued: 0, errors: 0 };
+    t.found += o.found;
+    t.queued += o.queued;
+    if (o.error) t.errors++;
+    totals.set(o.collectorId, t);
+  }
+  return totals;
+}
+
+/**
+ * A run with its outcomes, the changes it queued, and each collector's totals
+ * next to the most recent earlier run of that collector. Null if the run is unknown.
+ */
+export async function getRunDetail(id: string): Promise<CollectionRunDetail | null> {
+  const run = await prisma.collectionRun.findUnique({
+    where: { id },
+    include: {
+      ...RUN_CHEF,
+      outcomes: {
+        include: { chef: { select: { id: true, name: true, slug: true } } },
+        orderBy: [{ collectorId: "asc" }, { found: "desc" }],
+      },
+    },
+  });
+  if (!run) return null;
+
+  const changes = await prisma.pendingChange.findMany({
+    where: { runId: id },
+    include: { chef: { select: { name: true, slug: true } } },
+    orderBy: [{ chefId: "asc" }, { createdAt: "asc" }],
+  });
+
+  const data = toRunData(run);
+  const totals = collectorTotals(run.outcomes);
+  // A run for one chef is compared with earlier runs for that chef, a full run with full runs
+  const earlier = await prisma.collectionRun.findMany({
+    where: { startedAt: { lt: run.startedAt }, finishedAt: { not: null }, chefId: run.chefId },
+    include: { outcomes: { select: { collectorId: true, found: true, queued: true, error: true } } },
+    orderBy: { startedAt: "desc" },
+    take: PREVIOUS_RUN_LOOKBACK,
+  });
+
+  const collectors: CollectorRunDiff[] = data.logs.map((log) => {
+    const current = totals.get(log.collectorId ?? "") ?? { found: 0, queued: 0, errors: 0 };
+    const previousRun = earlier.find((r) => parseJson<CollectorLog[]>(r.logs, []).some((l) => l.collectorId === log.collectorId));
+    const previous = previousRun
+      ? { runId: previousRun.id, ...(collectorTotals(previousRun.outcomes).get(log.collectorId ?? "") ?? { found: 0, queued: 0, errors: 0 }) }
+      : null;
+    return { collectorId: log.collectorId ?? log.source, source: log.source, ...current, previous };
+  });
+
+  return {
+    ...data,
+    outcomes: run.outcomes.map((o) => ({
+      collectorId: o.collectorId,
+      chef: o.chef,
+      found: o.found,
+      queued: o.queued,
+      duplicates: o.duplicates,
+      error: o.error,
+    })),
+    collectors,
+    changes: changes.map((c) => ({
+      ...c,
+      kind: c.kind as ChangeKind,
+      status: c.status as ChangeStatus,
+      payload: JSON.parse(c.payload),
+      createdAt: c.createdAt.toISOString(),
+      reviewedAt: c.reviewedAt?.toISOString() ?? null,
+    })),
+  };
+}
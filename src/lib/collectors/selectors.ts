@@ -0,0 +1,104 @@
+/**
+ * CSS selectors for the scraped sources, kept in one place so a site redesign
+ * is a config change. Collectors count the items each loaded page yields; a run
+ * that loads pages but parses nothing from any of them means the selectors no
+ * longer match the site, and is flagged in the run log and connector health checks.
+ */
+
+export interface SourceSelectors {
+  item: string; // one element per parsed entry (restaurant card, award, list row)
+  fields: Record<string, string>; // read inside each item
+  minPagesForBreakage: number; // empty pages needed before a run counts as broken
+}
+
+export const SOURCE_SELECTORS = {
+  michelin: {
+    item: ".card__menu-content, .restaurant-card, [class*='restaurant']",
+    fields: {
+      name: "h3, .card__menu-content--title",
+      location: "[class*='location']",
+      stars: ".michelin-star, [class*='distinction-star']",
+      greenStar: ".michelin-green-star, [class*='green-star']",
+      bibGourmand: ".michelin-bib, [class*='bib-gourmand']",
+      guideYear: "[class*='guide-year']",
+    },
+    // Searches for restaurants the guide does not list legitimately come back empty
+    minPagesForBreakage: 5,
+  },
+  "james-beard": {
+    item: ".c-award-recipient, .award-item, .search-result",
+    fields: { detail: ".award-name, .c-award-recipient__award, h3, h4" },
+    minPagesForBreakage: 5,
+  },
+  "worlds-50-best": {
+    item: ".list-item, .restaurant-item, [class*='rank']",
+    fields: {
+      name: "h2, h3, a.name, .restaurant-name",
+      location: ".location, .restaurant-location, p",
+      listYear: "h1, .list-year, title", // edition year, read from the first one that names it
+    },
+    // The list pages are never legitimately empty
+    minPagesForBreakage: 1,
+  },
+  "bocuse-dor": {
+    item: ".winner, .palmares__item, [class*='laureate']",
+    fields: {
+      name: ".winner__name, .candidate, h3",
+      country: ".winner__country, [class*='country']",
+      prize: ".winner__prize, [class*='medal'], [class*='prize']",
+      edition: ".winner__year, [class*='edition'], [class*='year']",
+    },
+    // The winners page lists every edition, so it is never legitimately empty
+    minPagesForBreakage: 1,
+  },
+  "gault-millau": {
+    item: ".restaurant-card, .gm-result, [class*='establishment']",
+    fields: {
+      name: "h3, [class*='title']",
+      location: "[class*='city'], [class*='location']",
+      toques: ".toque, [class*='toque-icon']",
+      score: "[class*='score']", // out of 20
+      guideYear: "[class*='guide-year']",
+    },
+    minPagesForBreakage: 5,
+  },
+  "la-liste": {
+    item: ".restaurant-item, .search-result, [class*='restaurant-card']",
+    fields: {
+      name: "h3, [class*='name']",
+      location: "[class*='city'], [class*='location']",
+      score: "[class*='score']", // out of 100
+      edition: "[class*='edition'], [class*='year']",
+    },
+    minPagesForBreakage: 5,
+  },
+} satisfies Record<string, SourceSelectors>;
+
+export type ScrapedSource = keyof typeof SOURCE_SELECTORS;
+
+/** Pages a collector loaded during one run and how many of them its item selector matched. */
+export interface ParseStats {
+  pagesLoaded: number;
+  emptyPages: number;
+  itemsParsed: number;
+}
+
+export function emptyParseStats(): ParseStats {
+  return { pagesLoaded: 0, emptyPages: 0, itemsParsed: 0 };
+}
+
+export function recordPage(stats: ParseStats | undefined, itemCount: number): void {
+  if (!stats) return;
+  stats.pagesLoaded++;
+  stats.itemsParsed += itemCount;
+  if (itemCount === 0) stats.emptyPages++;
+}
+
+/** Enough pages loaded and not one of them had a matching item. */
+export function selectorsBroken(source: ScrapedSource, stats: ParseStats): boolean {
+  return stats.itemsParsed === 0 && stats.pagesLoaded >= SOURCE_SELECTORS[source].minPagesForBreakage;
+}
+
+export function isScrapedSource(id: string): id is ScrapedSource {
+  return id in SOURCE_SELECTORS;
+}
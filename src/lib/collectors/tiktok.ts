@@ -0,0 +1,68 @@
+/**
+ * TikTok collector: fetches chefs' public profile pages to read follower
+ * counts. Profiles come from each chef's managed handle or existing TIKTOK
+ * signal. Like Instagram, TikTok often serves a challenge page instead; those
+ * are logged to the run history without console noise.
+ */
+
+import * as cheerio from "cheerio";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { formatCount, knownProfiles, parseFollowerCount } from "./profiles";
+
+/** Build the follower-count result from a profile page, or null if the page shows no count. */
+export function parseTikTokProfile(chefId: string, profileUrl: string, html: string): CollectionResult | null {
+  // The embedded page state carries the exact count; the description a rounded one
+  const exact = html.match(/"followerCount"\s*:\s*(\d+)/);
+  let followers = exact ? parseInt(exact[1]) : null;
+  if (!followers) {
+    const $ = cheerio.load(html);
+    const description = $('meta[name="description"]').attr("content") || $('meta[property="og:description"]').attr("content") || "";
+    const match = description.match(/([\d,.]+[KMB]?)\s*Followers/i);
+    followers = match ? parseFollowerCount(match[1]) : null;
+  }
+  if (!followers || followers <= 0) return null;
+
+  return {
+    chefId,
+    source: "TikTok",
+    publicSignals: [
+      {
+        platform: "TIKTOK",
+        metric: formatCount(followers, "followers"),
+        value: followers,
+        sourceUrl: profileUrl,
+      },
+    ],
+  };
+}
+
+export const tiktokCollector: Collector = {
+  name: "TikTok",
+  confidence: 0.85,
+
+  async collect(chefs: CollectorChef[], options: CollectorRunOptions = DEFAULT_RUN_OPTIONS): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    const profiles = await knownProfiles(chefs, "TIKTOK", "tiktok.com");
+
+    await mapConcurrent(profiles, options.concurrency, async ([chefId, profileUrl]) => {
+      try {
+        const html = await httpGet(profileUrl, {
+          ...options,
+          headers: {
+            "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+          },
+          maxRedirects: 3,
+        });
+        const result = parseTikTokProfile(chefId, profileUrl, html);
+        results.push(result ?? { chefId, source: "TikTok", error: "Profile page showed no follower count" });
+      } catch (err) {
+        results.push({ chefId, source: "TikTok", error: (err as Error).message });
+      }
+    });
+
+    return results;
+  },
+};
@@ -2,15 +2,31 @@
  * Shared types for the collector module system.
  */
 
+import type { PendingChangeData } from "@/types";
+import type { ParseStats } from "./selectors";
+
 export interface CollectionResult {
   chefId: string;
   source: string;
+  newsItemId?: string; // NewsItem the records were extracted from
+  confidence?: number; // 0-1; defaults to the collector's confidence
+  error?: string; // collecting for this chef failed; recorded in the run history
   accolades?: {
     type: string;
     detail?: string;
+    restaurant?: string;
     year?: number;
     sourceUrl?: string;
   }[];
+  // Accolades the chef no longer holds; type or restaurant narrows which ones
+  accoladeEnds?: {
+    type?: string;
+    detail?: string;
+    restaurant?: string;
+    endYear: number;
+    endReason: string; // one of ACCOLADE_END_REASONS
+    sourceUrl?: string;
+  }[];
   careerEntries?: {
     role: string;
     restaurant: string;
@@ -32,55 +48,173 @@ export interface CollectionResult {
     relatedChef?: string;
     sourceUrl?: string;
   }[];
+  // Accounts the chef has; staged for review, never scored
+  socialHandles?: {
+    platform: string; // one of SOCIAL_PLATFORMS
+    handle: string;
+    sourceUrl?: string;
+  }[];
 }
 
 export interface CollectorLog {
+  collectorId?: string;
   source: string;
   status: "SUCCESS" | "FAILED" | "PARTIAL";
   itemsFound: number;
   errors: string[];
   durationMs: number;
+  parse?: ParseStats; // scraped collectors only
+  selectorsBroken?: boolean; // pages loaded but none matched the source's selectors
 }
 
 export interface CollectionSummary {
   status: "SUCCESS" | "PARTIAL" | "FAILED";
   totalChefsProcessed: number;
+  // Records queued for review, by kind
   newAccolades: number;
+  endedAccolades: number;
   updatedSignals: number;
   newCareerEntries: number;
   newPeerStandings: number;
+  newSocialHandles: number;
   logs: CollectorLog[];
+  skipped: { collectorId: string; source: string; reason: string }[];
+  runId: string; // stamped on every record queued by this run
   timestamp: string;
 }
 
 export interface Collector {
   name: string;
-  collect(chefs: CollectorChef[]): Promise<CollectionResult[]>;
+  confidence: number; // 0-1, how far its records can be trusted without checking
+  // Scrapers record each page they load in stats so broken selectors can be spotted
+  collect(chefs: CollectorChef[], options?: CollectorRunOptions, stats?: ParseStats): Promise<CollectionResult[]>;
+}
+
+/** Per-run pacing and retry policy, taken from the collector's saved settings. */
+export interface CollectorRunOptions {
+  rateLimitMs: number; // minimum spacing between requests to the same host
+  maxRetries: number; // attempts per request, including the first
+  retryBaseDelayMs: number; // doubled after each failed attempt
+  concurrency: number; // chefs processed at once
 }
 
+export const DEFAULT_RUN_OPTIONS: CollectorRunOptions = {
+  rateLimitMs: 500,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  concurrency: 4,
+};
+
 export interface CollectorChef {
   id: string;
   name: string;
   slug: string;
   currentRestaurant: string | null;
+  city: string | null;
+  restaurants: { name: string; city: string | null }[]; // current restaurant and current career positions
+  // Live, to spot losses
+  accolades: { type: string; detail: string | null; restaurant: string | null; year: number | null; endYear: number | null }[];
+  socialHandles: { platform: string; handle: string }[]; // managed handles, one per platform
 }
 
 export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** Run fn over items with at most `limit` in flight; results keep input order. */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
 export async function fetchWithRetry(
   fn: () => Promise<unknown>,
   retries = 3,
-  baseDelayMs = 1000
+  baseDelayMs = 1000,
+  shouldRetry: (err: unknown) => boolean = () => true
 ): Promise<unknown> {
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
       return await fn();
     } catch (err) {
-      if (attempt === retries - 1) throw err;
+      if (attempt === retries - 1 || !shouldRetry(err)) throw err;
       await sleep(baseDelayMs * Math.pow(2, attempt));
     }
   }
   throw new Error("Unreachable");
 }
+
+export type CollectorSchedule = "every_run" | "daily" | "weekly" | "monthly" | "manual";
+
+export const COLLECTOR_SCHEDULES: CollectorSchedule[] = ["every_run", "daily", "weekly", "monthly", "manual"];
+
+/** Persisted per-collector configuration; see CollectorSetting in the schema. */
+export interface CollectorSettings extends CollectorRunOptions {
+  enabled: boolean;
+  schedule: CollectorSchedule; // manual collectors only run when requested by id
+  chefSlugs: string[] | null; // null = every active chef
+}
+
+export interface CollectorInfo {
+  id: string;
+  name: string;
+  description: string;
+  settings: CollectorSettings;
+  defaults: CollectorSettings;
+  lastRunAt: string | null;
+  due: boolean;
+}
+
+export type CollectionRunStatus = "RUNNING" | CollectionSummary["status"];
+
+/** A persisted collection run; see CollectionRun in the schema. */
+export interface CollectionRunData {
+  id: string;
+  status: CollectionRunStatus;
+  collectorIds: string[] | null; // null = every collector that was due
+  chef: { name: string; slug: string } | null; // set when the run collected for one chef only
+  chefsProcessed: number;
+  queued: number;
+  logs: CollectorLog[];
+  skipped: CollectionSummary["skipped"];
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface CollectionRunOutcomeData {
+  collectorId: string;
+  chef: { id: string; name: string; slug: string };
+  found: number;
+  queued: number;
+  duplicates: number;
+  error: string | null;
+}
+
+/** One collector's totals in a run, next to the previous run that included it. */
+export interface CollectorRunDiff {
+  collectorId: string;
+  source: string;
+  found: number;
+  queued: number;
+  errors: number; // chefs whose collection failed
+  previous: { runId: string; found: number; queued: number; errors: number } | null;
+}
+
+export interface CollectionRunDetail extends CollectionRunData {
+  outcomes: CollectionRunOutcomeData[];
+  collectors: CollectorRunDiff[];
+  changes: PendingChangeData[]; // what the run queued, with each change's review status
+}
@@ -1,81 +1,156 @@
 /**
- * World's 50 Best Restaurants collector: fetches ranked list and
- * cross-references against chefs' currentRestaurant field.
+ * World's 50 Best Restaurants collector: fetches the World's 1-50 and 51-100
+ * lists and the Asia's and Latin America's 50 Best lists, and cross-references
+ * them against each chef's restaurants. A placing is recorded per list year
+ * with its rank, so each year's list adds to the restaurant's rank history.
+ * A chef whose restaurant was on an earlier edition of a list but is missing
+ * from this one has dropped off, and their earlier placing is ended.
  */
 
-import axios from "axios";
 import * as cheerio from "cheerio";
-import type { Collector, CollectionResult, CollectorChef } from "./types";
-import { fetchWithRetry } from "./types";
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS } from "./types";
+import { httpGet } from "./http";
+import { matchesRestaurant } from "./matching";
+import { SOURCE_SELECTORS, recordPage, type ParseStats } from "./selectors";
+
+const SELECTORS = SOURCE_SELECTORS["worlds-50-best"];
 
 interface RankedRestaurant {
   rank: number;
   name: string;
-  chef?: string;
-  city?: string;
+  location: string | null; // the restaurant's city
+}
+
+/** One page of a ranked list. The World's list is split across two pages that rank one list. */
+interface ListPage {
+  type: string; // accolade type the placing is recorded as
+  title: string;
+  url: string;
+}
+
+const LIST_PAGES: ListPage[] = [
+  { type: "WORLDS_50_BEST", title: "World's 50 Best Restaurants", url: "https://www.theworlds50best.com/list/1-50" },
+  { type: "WORLDS_50_BEST", title: "World's 50 Best Restaurants", url: "https://www.theworlds50best.com/list/51-100" },
+  { type: "ASIAS_50_BEST", title: "Asia's 50 Best Restaurants", url: "https://www.theworlds50best.com/asia/en/list/1-50" },
+  { type: "LATIN_AMERICAS_50_BEST", title: "Latin America's 50 Best Restaurants", url: "https://www.theworlds50best.com/latinamerica/en/list/1-50" },
+];
+
+/** A loaded list page: its year, from the page heading when it shows one, and its ranked entries. */
+interface LoadedList extends ListPage {
+  year: number;
+  entries: RankedRestaurant[];
+}
+
+export function parseRankedList(html: string): { year: number | null; entries: RankedRestaurant[]; items: number } {
+  const $ = cheerio.load(html);
+  const entries: RankedRestaurant[] = [];
+
+  const items = $(SELECTORS.item);
+  items.each((_, el) => {
+    const text = $(el).text().trim();
+    const rankMatch = text.match(/^(\d+)\b/);
+    const rank = rankMatch ? parseInt(rankMatch[1]) : 0;
+
+    // Try to extract restaurant name from headings or links
+    const nameEl = $(el).find(SELECTORS.fields.name).first();
+    const name = nameEl.text().trim() || text.split("\n")[0]?.trim() || "";
+    const location = $(el).find(SELECTORS.fields.location).first().text().trim() || null;
+
+    if (rank > 0 && name) {
+      entries.push({ rank, name, location });
+    }
+  });
+
+  const yearText = $(SELECTORS.fields.listYear).toArray()
+    .map((el) => $(el).text().match(/\b20\d{2}\b/)?.[0])
+    .find(Boolean);
+  const year = parseInt(yearText ?? "");
+  return { year: Number.isNaN(year) ? null : year, entries, items: items.length };
 }
 
 export const worlds50BestCollector: Collector = {
   name: "World's 50 Best",
+  confidence: 0.8,
 
-  async collect(chefs: CollectorChef[]): Promise<CollectionResult[]> {
+  async collect(
+    chefs: CollectorChef[],
+    options: CollectorRunOptions = DEFAULT_RUN_OPTIONS,
+    stats?: ParseStats
+  ): Promise<CollectionResult[]> {
     const results: CollectionResult[] = [];
 
-    try {
-      const response = await fetchWithRetry(
-        () => axios.get("https://www.theworlds50best.com/list/1-50", {
-          timeout: 15000,
-          headers: { "User-Agent": "Mozilla/5.0 (compatible; ChefRankerBot/1.0)" },
-        }),
-      ) as { data: string };
-
-      const $ = cheerio.load(response.data);
-      const rankedRestaurants: RankedRestaurant[] = [];
-
-      // Parse the ranked list entries
-      $(".list-item, .restaurant-item, [class*='rank']").each((_, el) => {
-        const text = $(el).text().trim();
-        const rankMatch = text.match(/^(\d+)\b/);
-        const rank = rankMatch ? parseInt(rankMatch[1]) : 0;
-
-        // Try to extract restaurant name from headings or links
-        const nameEl = $(el).find("h2, h3, a.name, .restaurant-name").first();
-        const name = nameEl.text().trim() || text.split("\n")[0]?.trim() || "";
-
-        if (rank > 0 && name) {
-          rankedRestaurants.push({ rank, name });
+    const lists: LoadedList[] = [];
+    const failedTypes = new Set<string>();
+    for (const page of LIST_PAGES) {
+      try {
+        const html = await httpGet(page.url, { ...options, timeoutMs: 15000 });
+        const { year, entries, items } = parseRankedList(html);
+        recordPage(stats, items);
+        if (entries.length === 0) {
+          failedTypes.add(page.type);
+          continue;
         }
-      });
-
-      if (rankedRestaurants.length === 0) return results;
-
-      // Cross-reference chefs by currentRestaurant
-      for (const chef of chefs) {
-        if (!chef.currentRestaurant) continue;
-
-        const restaurantLower = chef.currentRestaurant.toLowerCase();
-        const match = rankedRestaurants.find((r) =>
-          r.name.toLowerCase().includes(restaurantLower) ||
-          restaurantLower.includes(r.name.toLowerCase())
-        );
-
-        if (match) {
-          results.push({
-            chefId: chef.id,
-            source: "World's 50 Best",
-            accolades: [
-              {
-                type: "WORLDS_50_BEST",
-                detail: `#${match.rank} World's 50 Best Restaurants`,
-                year: new Date().getFullYear(),
-                sourceUrl: "https://www.theworlds50best.com/list/1-50",
-              },
-            ],
+        lists.push({ ...page, year: year ?? new Date().getFullYear(), entries });
+      } catch (err) {
+        failedTypes.add(page.type);
+        console.error(`[World's 50 Best] Failed to fetch ${page.url}: ${(err as Error).message}`);
+      }
+    }
+
+    if (lists.length === 0) return results;
+
+    for (const chef of chefs) {
+      const restaurants = chef.restaurants.length > 0
+        ? chef.restaurants
+        : chef.currentRestaurant ? [{ name: chef.currentRestaurant, city: chef.city }] : [];
+      if (restaurants.length === 0) continue;
+
+      const accolades: NonNullable<CollectionResult["accolades"]> = [];
+      const placed = new Set<string>(); // "TYPE" and "TYPE:restaurant" for every placing found
+      for (const list of lists) {
+        for (const restaurant of restaurants) {
+          // Exact names only: a short name like "Noma" must not match "Nomad"
+          const match = list.entries.find((r) => matchesRestaurant(r, restaurant));
+          if (!match) continue;
+          placed.add(list.type);
+          placed.add(`${list.type}:${restaurant.name.toLowerCase()}`);
+          accolades.push({
+            type: list.type,
+            detail: `#${match.rank} ${list.title}`,
+            restaurant: restaurant.name,
+            year: list.year,
+            sourceUrl: list.url,
           });
         }
       }
-    } catch (err) {
-      console.error(`[World's 50 Best] Failed to fetch list: ${(err as Error).message}`);
+
+      // Only lists whose every page loaded can show that a restaurant dropped off
+      const accoladeEnds: NonNullable<CollectionResult["accoladeEnds"]> = [];
+      const ended = new Set<string>();
+      for (const a of chef.accolades) {
+        const list = lists.find((l) => l.type === a.type);
+        if (!list || failedTypes.has(a.type) || a.endYear != null || a.year == null || a.year >= list.year) continue;
+        const key = a.restaurant ? `${a.type}:${a.restaurant.toLowerCase()}` : a.type;
+        if (placed.has(key) || ended.has(key)) continue;
+        ended.add(key);
+        accoladeEnds.push({
+          type: a.type,
+          restaurant: a.restaurant ?? undefined,
+          endYear: list.year,
+          endReason: "DROPPED_OFF",
+          sourceUrl: list.url,
+        });
+      }
+
+      if (accolades.length > 0 || accoladeEnds.length > 0) {
+        results.push({
+          chefId: chef.id,
+          source: "World's 50 Best",
+          accolades: accolades.length > 0 ? accolades : undefined,
+          accoladeEnds: accoladeEnds.length > 0 ? accoladeEnds : undefined,
+        });
+      }
     }
 
     return results;
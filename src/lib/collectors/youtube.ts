@@ -0,0 +1,60 @@
+/**
+ * YouTube collector: fetches chefs' public channel pages to read subscriber
+ * counts. Channels come from each chef's managed handle or existing YOUTUBE
+ * signal.
+ */
+
+import type { Collector, CollectionResult, CollectorChef, CollectorRunOptions } from "./types";
+import { DEFAULT_RUN_OPTIONS, mapConcurrent } from "./types";
+import { httpGet } from "./http";
+import { formatCount, knownProfiles, parseFollowerCount } from "./profiles";
+
+/** Build the subscriber-count result from a channel page, or null if the page shows no count. */
+export function parseYouTubeChannel(chefId: string, channelUrl: string, html: string): CollectionResult | null {
+  // The count is embedded in the page data as text like "1.23M subscribers"
+  const match = html.match(/([\d,.]+\s*[KMB]?)\s+subscribers/i);
+  const subscribers = match ? parseFollowerCount(match[1].replace(/\s+/g, "")) : null;
+  if (!subscribers || subscribers <= 0) return null;
+
+  return {
+    chefId,
+    source: "YouTube",
+    publicSignals: [
+      {
+        platform: "YOUTUBE",
+        metric: formatCount(subscribers, "subscribers"),
+        value: subscribers,
+        sourceUrl: channelUrl,
+      },
+    ],
+  };
+}
+
+export const youtubeCollector: Collector = {
+  name: "YouTube",
+  confidence: 0.9,
+
+  async collect(chefs: CollectorChef[], options: CollectorRunOptions = DEFAULT_RUN_OPTIONS): Promise<CollectionResult[]> {
+    const results: CollectionResult[] = [];
+
+    const channels = await knownProfiles(chefs, "YOUTUBE", "youtube.com");
+
+    await mapConcurrent(channels, options.concurrency, async ([chefId, channelUrl]) => {
+      try {
+        const html = await httpGet(channelUrl, {
+          ...options,
+          // Without a language the counts come back localised
+          headers: { "Accept-Language": "en-US,en;q=0.9" },
+          maxRedirects: 3,
+        });
+        const result = parseYouTubeChannel(chefId, channelUrl, html);
+        results.push(result ?? { chefId, source: "YouTube", error: "Channel page showed no subscriber count" });
+      } catch (err) {
+        console.error(`[YouTube] Failed for ${channelUrl}: ${(err as Error).message}`);
+        results.push({ chefId, source: "YouTube", error: (err as Error).message });
+      }
+    });
+
+    return results;
+  },
+};
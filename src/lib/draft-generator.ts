@@ -9,7 +9,7 @@ export interface ChefProfile {
   totalScore: number;
   yearsExperience: number | null;
   bio: string | null;
-  accolades: { type: string; detail: string | null; year: number | null }[];
+  accolades: { type: string; detail: string | null; year: number | null; endYear?: number | null }[];
   careerEntries: { role: string; restaurant: string; city: string | null; startYear: number | null; endYear: number | null; isCurrent: boolean }[];
   newsItems?: { newsItem: { title: string; source: string; publishedAt: string | Date; category: string; summary: string | null } }[];
 }
@@ -36,9 +36,15 @@ export interface GeneratedDraft {
 function accoladeLabel(type: string, detail: string | null): string {
   switch (type) {
     case "MICHELIN_STAR": return `Michelin ${detail || "Star"}`;
+    case "MICHELIN_GREEN_STAR": return "Michelin Green Star";
+    case "MICHELIN_BIB_GOURMAND": return "Michelin Bib Gourmand";
     case "JAMES_BEARD": return detail || "James Beard Award";
     case "WORLDS_50_BEST": return detail || "World's 50 Best";
-    case "BOCUSE_DOR": return detail || "Bocuse d'Or";
+    case "ASIAS_50_BEST": return detail || "Asia's 50 Best";
+    case "LATIN_AMERICAS_50_BEST": return detail || "Latin America's 50 Best";
+    case "BOCUSE_DOR": return `Bocuse d'Or${detail ? ` ${detail}` : ""}`;
+    case "GAULT_MILLAU": return `Gault&Millau${detail ? ` ${detail}` : ""}`;
+    case "LA_LISTE": return `La Liste${detail ? ` ${detail}` : ""}`;
     default: return detail || type;
   }
 }
@@ -172,11 +178,13 @@ No markdown, no code fences, no explanation — just the JSON object.`;
 }
 
 export async function generateOutreachDraft(
-  chef: ChefProfile,
+  profile: ChefProfile,
   sender: SenderInfo,
   config: OutreachConfig,
   previousDraftBody?: string
 ): Promise<GeneratedDraft> {
+  // A lost star, or an accolade no longer held, is not something to open an email with
+  const chef = { ...profile, accolades: profile.accolades.filter((a) => a.type !== "MICHELIN_STAR_LOSS" && a.endYear == null) };
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     throw new Error("ANTHROPIC_API_KEY is not set. Add it in Settings or .env file.");
@@ -0,0 +1,50 @@
+/**
+ * Provenance: every scored record remembers where it came from — the collector
+ * (or manual path) that wrote it, the collection run, the news item it was
+ * extracted from, when it was collected and how far the source is trusted.
+ * Records written before tracking began have no provenance.
+ */
+
+import type { RecordProvenance } from "@/types";
+
+export const MANUAL_IMPORT = "Manual import";
+export const MANUAL_EDIT = "Manual edit";
+
+/** Provenance columns as written to Accolade, CareerEntry, IndustryRecognition, PublicSignal and PeerStanding. */
+export interface Provenance {
+  origin: string;
+  runId: string | null;
+  newsItemId: string | null;
+  collectedAt: Date;
+  confidence: number | null;
+}
+
+/** Provenance for records entered by hand, which are taken at face value. */
+export function manualProvenance(origin: typeof MANUAL_IMPORT | typeof MANUAL_EDIT): Provenance {
+  return { origin, runId: null, newsItemId: null, collectedAt: new Date(), confidence: 1 };
+}
+
+/** Prisma include that loads the originating news item alongside a record. */
+export const PROVENANCE_INCLUDE = {
+  newsItem: { select: { id: true, title: true, url: true } },
+} as const;
+
+interface StoredProvenance {
+  origin: string | null;
+  runId: string | null;
+  collectedAt: Date | null;
+  confidence: number | null;
+  newsItem?: { id: string; title: string; url: string } | null;
+}
+
+/** Provenance as shown against a record; null when the record predates tracking. */
+export function toRecordProvenance(record: StoredProvenance): RecordProvenance | null {
+  if (!record.origin) return null;
+  return {
+    origin: record.origin,
+    runId: record.runId,
+    newsItem: record.newsItem ?? null,
+    collectedAt: record.collectedAt?.toISOString() ?? null,
+    confidence: record.confidence,
+  };
+}
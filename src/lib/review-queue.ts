@@ -0,0 +1,385 @@
+/**
+ * Review queue: collected records are staged as PendingChange rows and only
+ * written to the live tables (and so into scores) once a reviewer approves them.
+ */
+
+import { prisma } from "./db";
+import type { Prisma } from "@/generated/prisma/client";
+import type { Provenance } from "./provenance";
+import type { CollectionResult } from "./collectors/types";
+import { isSocialPlatform, parseSocialHandle } from "./social-handles";
+import {
+  ACCOLADE_END_REASONS,
+  CHANGE_FIELDS,
+  CHANGE_KINDS,
+  SOCIAL_PLATFORMS,
+  type AccoladeEndReason,
+  type ChangeKind,
+  type PendingChangeData,
+} from "@/types";
+
+type Payload = PendingChangeData["payload"];
+
+// The shared client, or the transaction an approval runs in
+type Db = Prisma.TransactionClient;
+
+type ResultField = "accolades" | "accoladeEnds" | "careerEntries" | "publicSignals" | "peerStandings" | "socialHandles";
+
+const RESULT_FIELD: Record<ChangeKind, ResultField> = {
+  accolade: "accolades",
+  accoladeEnd: "accoladeEnds",
+  careerEntry: "careerEntries",
+  publicSignal: "publicSignals",
+  peerStanding: "peerStandings",
+  socialHandle: "socialHandles",
+};
+
+export interface StageStats {
+  newAccolades: number;
+  endedAccolades: number;
+  updatedSignals: number;
+  newCareerEntries: number;
+  newPeerStandings: number;
+  newSocialHandles: number;
+}
+
+/** What happened to one result's records: queued, or dropped as already live or already waiting. */
+export interface StageOutcome {
+  found: number;
+  queued: number;
+  duplicates: number;
+}
+
+const STAT_FIELD: Record<ChangeKind, keyof StageStats> = {
+  accolade: "newAccolades",
+  accoladeEnd: "endedAccolades",
+  careerEntry: "newCareerEntries",
+  publicSignal: "updatedSignals",
+  peerStanding: "newPeerStandings",
+  socialHandle: "newSocialHandles",
+};
+
+export function isChangeKind(value: unknown): value is ChangeKind {
+  return CHANGE_KINDS.includes(value as ChangeKind);
+}
+
+/**
+ * Validate a record against its kind's fields and return it in canonical form:
+ * known fields only, blanks as null. Throws with the offending field on bad input.
+ */
+export function normalizePayload(kind: ChangeKind, input: unknown): Payload {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error("payload must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+  const payload: Payload = {};
+
+  for (const [field, { type, required }] of Object.entries(CHANGE_FIELDS[kind])) {
+    let value = raw[field];
+    if (value === undefined || value === "" || value === null) {
+      if (required) throw new Error(`${field} is required`);
+      payload[field] = null;
+      continue;
+    }
+    if (type === "string") {
+      if (typeof value !== "string") throw new Error(`${field} must be a string`);
+      value = value.trim();
+    } else if (type === "boolean") {
+      if (typeof value !== "boolean") throw new Error(`${field} must be true or false`);
+    } else if (typeof value !== "number" || !Number.isFinite(value) || (type === "int" && !Number.isInteger(value))) {
+      throw new Error(`${field} must be ${type === "int" ? "a whole number" : "a number"}`);
+    }
+    payload[field] = value as string | number | boolean;
+  }
+
+  if (kind === "accoladeEnd") {
+    if (!ACCOLADE_END_REASONS.includes(payload.endReason as AccoladeEndReason)) {
+      throw new Error(`endReason must be one of ${ACCOLADE_END_REASONS.join(", ")}`);
+    }
+    if (!payload.type && !payload.restaurant) throw new Error("type or restaurant is required");
+  }
+  if (kind === "socialHandle") {
+    const platform = payload.platform;
+    if (!isSocialPlatform(platform)) throw new Error(`platform must be one of ${SOCIAL_PLATFORMS.join(", ")}`);
+    // Store the handle the way a manual edit would, so the same account always serializes the same
+    const handle = parseSocialHandle(platform, payload.handle as string);
+    if (!handle) throw new Error(`handle is not a valid ${platform} handle`);
+    payload.handle = handle;
+  }
+  return payload;
+}
+
+function str(value: Payload[string]): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function num(value: Payload[string]): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+// Active accolades an end applies to: awarded before the end year, narrowed by whichever of type, restaurant and detail it names
+function activeAccoladeWhere(chefId: string, p: Payload) {
+  return {
+    chefId,
+    endYear: null,
+    OR: [{ year: null }, { year: { lt: num(p.endYear)! } }],
+    ...(str(p.type) ? { type: str(p.type)! } : {}),
+    ...(str(p.restaurant) ? { restaurant: str(p.restaurant) } : {}),
+    ...(str(p.detail) ? { detail: str(p.detail) } : {}),
+  };
+}
+
+/** The live record this payload duplicates, if any. Signals only match when the value is unchanged. */
+async function findLiveRecord(db: Db, kind: Exclude<ChangeKind, "accoladeEnd">, chefId: string, p: Payload): Promise<{ id: string } | null> {
+  switch (kind) {
+    case "accolade":
+      return db.accolade.findFirst({
+        where: { chefId, type: str(p.type)!, detail: str(p.detail), restaurant: str(p.restaurant), year: num(p.year) },
+        select: { id: true },
+      });
+    case "careerEntry":
+      return db.careerEntry.findFirst({
+        where: { chefId, restaurant: str(p.restaurant)!, role: str(p.role)! },
+        select: { id: true },
+      });
+    case "publicSignal":
+      return db.publicSignal.findFirst({
+        where: { chefId, platform: str(p.platform)!, value: num(p.value) },
+        select: { id: true },
+      });
+    case "peerStanding":
+      return db.peerStanding.findFirst({
+        where: { chefId, type: str(p.type)!, relatedChef: str(p.relatedChef) },
+        select: { id: true },
+      });
+    case "socialHandle":
+      return db.socialHandle.findFirst({
+        where: { chefId, platform: str(p.platform)!, handle: str(p.handle)! },
+        select: { id: true },
+      });
+  }
+}
+
+/** Approving the payload would change nothing: the record is live already, or no active accolade is left to end. */
+async function isAlreadyApplied(kind: ChangeKind, chefId: string, p: Payload): Promise<boolean> {
+  if (kind === "accoladeEnd") return (await prisma.accolade.count({ where: activeAccoladeWhere(chefId, p) })) === 0;
+  return (await findLiveRecord(prisma, kind, chefId, p)) !== null;
+}
+
+/**
+ * Queue every record in the results for review, skipping ones already live,
+ * already waiting or already rejected. Each change keeps the run, news item and confidence it came
+ * with so the live record can carry them. Returns how many of each kind were
+ * queued, and an outcome per result (in the same order) for the run history.
+ */
+export async function stageResults(
+  results: CollectionResult[],
+  runId?: string
+): Promise<StageStats & { outcomes: StageOutcome[] }> {
+  const stats: StageStats = {
+    newAccolades: 0,
+    endedAccolades: 0,
+    updatedSignals: 0,
+    newCareerEntries: 0,
+    newPeerStandings: 0,
+    newSocialHandles: 0,
+  };
+  const outcomes: StageOutcome[] = [];
+
+  for (const result of results) {
+    const outcome: StageOutcome = { found: 0, queued: 0, duplicates: 0 };
+    outcomes.push(outcome);
+    for (const kind of CHANGE_KINDS) {
+      for (const item of result[RESULT_FIELD[kind]] ?? []) {
+        outcome.found++;
+        let payload: Payload;
+        try {
+          payload = normalizePayload(kind, item);
+        } catch (err) {
+          console.error(`[Review] Dropped malformed ${kind} from ${result.source}: ${(err as Error).message}`);
+          continue;
+        }
+        const serialized = JSON.stringify(payload);
+        const duplicate = await isAlreadyApplied(kind, result.chefId, payload) || await prisma.pendingChange.findFirst({
+          where: { chefId: result.chefId, kind, status: { in: ["pending", "rejected"] }, payload: serialized },
+          select: { id: true },
+        });
+        if (duplicate) {
+          outcome.duplicates++;
+          continue;
+        }
+
+        await prisma.pendingChange.create({
+          data: {
+            chefId: result.chefId,
+            kind,
+            source: result.source,
+            payload: serialized,
+            runId: runId ?? null,
+            newsItemId: result.newsItemId ?? null,
+            confidence: result.confidence ?? null,
+          },
+        });
+        stats[STAT_FIELD[kind]]++;
+        outcome.queued++;
+      }
+    }
+  }
+
+  return { ...stats, outcomes };
+}
+
+/** Close the matching active accolades from the end year. Returns the first one closed, or null if none were left. */
+async function endAccolades(db: Db, chefId: string, p: Payload): Promise<string | null> {
+  const active = await db.accolade.findMany({ where: activeAccoladeWhere(chefId, p), select: { id: true } });
+  await db.accolade.updateMany({
+    where: { id: { in: active.map((a) => a.id) } },
+    data: { endYear: num(p.endYear), endReason: str(p.endReason) },
+  });
+  return active[0]?.id ?? null;
+}
+
+/**
+ * Write an approved payload to its live table, stamped with where it came from,
+ * and return the record's id (for an end, the first accolade it closed).
+ */
+async function applyChange(db: Db, kind: ChangeKind, chefId: string, p: Payload, provenance: Provenance): Promise<string | null> {
+  if (kind === "accoladeEnd") return endAccolades(db, chefId, p);
+
+  const existing = await findLiveRecord(db, kind, chefId, p);
+  if (existing) return existing.id;
+
+  switch (kind) {
+    case "accolade":
+      return (await db.accolade.create({
+        data: {
+          chefId,
+          type: str(p.type)!,
+          detail: str(p.detail),
+          restaurant: str(p.restaurant),
+          year: num(p.year),
+          sourceUrl: str(p.sourceUrl),
+          ...provenance,
+        },
+      })).id;
+    case "careerEntry":
+      return (await db.careerEntry.create({
+        data: {
+          chefId,
+          role: str(p.role)!,
+          restaurant: str(p.restaurant)!,
+          city: str(p.city),
+          startYear: num(p.startYear),
+          endYear: num(p.endYear),
+          isCurrent: p.isCurrent === true,
+          sourceUrl: str(p.sourceUrl),
+          ...provenance,
+        },
+      })).id;
+    case "publicSignal": {
+      // One signal per platform holds the latest value; every reading is kept for momentum
+      const signal = await db.publicSignal.findFirst({ where: { chefId, platform: str(p.platform)! } });
+      const saved = signal
+        ? await db.publicSignal.update({
+          where: { id: signal.id },
+          data: {
+            metric: str(p.metric) ?? signal.metric,
+            value: num(p.value) ?? signal.value,
+            sourceUrl: str(p.sourceUrl) ?? signal.sourceUrl,
+            ...provenance,
+          },
+        })
+        : await db.publicSignal.create({
+          data: { chefId, platform: str(p.platform)!, metric: str(p.metric), value: num(p.value), sourceUrl: str(p.sourceUrl), ...provenance },
+        });
+      await db.publicSignalReading.create({
+        data: {
+          signalId: saved.id,
+          value: saved.value,
+          metric: saved.metric,
+          runId: provenance.runId,
+          recordedAt: provenance.collectedAt,
+        },
+      });
+      return saved.id;
+    }
+    case "peerStanding":
+      return (await db.peerStanding.create({
+        data: {
+          chefId,
+          type: str(p.type)!,
+          detail: str(p.detail),
+          relatedChef: str(p.relatedChef),
+          sourceUrl: str(p.sourceUrl),
+          ...provenance,
+        },
+      })).id;
+    case "socialHandle": {
+      // One handle per platform: an approved handle replaces the chef's current one
+      const { origin, runId, collectedAt, confidence } = provenance;
+      const data = { handle: str(p.handle)!, sourceUrl: str(p.sourceUrl), origin, runId, collectedAt, confidence };
+      return (await db.socialHandle.upsert({
+        where: { chefId_platform: { chefId, platform: str(p.platform)! } },
+        update: data,
+        create: { chefId, platform: str(p.platform)!, ...data },
+      })).id;
+    }
+  }
+}
+
+export interface ChangeSelection {
+  ids?: string[];
+  source?: string;
+}
+
+function pendingWhere({ ids, source }: ChangeSelection) {
+  if (!ids?.length && !source) throw new Error("Select changes by ids or source");
+  return {
+    status: "pending",
+    ...(ids?.length ? { id: { in: ids } } : {}),
+    ...(source ? { source } : {}),
+  };
+}
+
+/**
+ * Apply the selected pending changes to the live tables. Each change is written
+ * and marked approved in one transaction, so a failure leaves it pending rather
+ * than live but still queued. Returns how many were applied.
+ */
+export async function approveChanges(selection: ChangeSelection): Promise<number> {
+  const changes = await prisma.pendingChange.findMany({ where: pendingWhere(selection), orderBy: { createdAt: "asc" } });
+  for (const change of changes) {
+    if (!isChangeKind(change.kind)) continue;
+    const kind = change.kind;
+    await prisma.$transaction(async (tx) => {
+      const recordId = await applyChange(tx, kind, change.chefId, JSON.parse(change.payload), {
+        origin: change.source,
+        runId: change.runId,
+        newsItemId: change.newsItemId,
+        collectedAt: change.createdAt,
+        confidence: change.confidence,
+      });
+      await tx.pendingChange.update({
+        where: { id: change.id },
+        data: { status: "approved", recordId, reviewedAt: new Date() },
+      });
+    });
+  }
+  return changes.length;
+}
+
+export async function rejectChanges(selection: ChangeSelection, note?: string): Promise<number> {
+  const { count } = await prisma.pendingChange.updateMany({
+    where: pendingWhere(selection),
+    data: { status: "rejected", reviewNote: note || null, reviewedAt: new Date() },
+  });
+  return count;
+}
+
+/** Replace a pending change's payload with a reviewer's edit. Null if it is missing or already reviewed. */
+export async function editChange(id: string, input: unknown) {
+  const change = await prisma.pendingChange.findUnique({ where: { id } });
+  if (!change || change.status !== "pending" || !isChangeKind(change.kind)) return null;
+  const payload = normalizePayload(change.kind, input);
+  return prisma.pendingChange.update({ where: { id }, data: { payload: JSON.stringify(payload) } });
+}
@@ -0,0 +1,725 @@
+/**
+ * Scoring engine: evaluates a declarative ScoringRules object against a chef's
+ * records, weighting each record by its category's decay curve. This is the
+ * only implementation of the score calculation; it has no database access so
+ * API routes and the browser both import it directly.
+ */
+
+import {
+  DECAY_CURVES,
+  DEFAULT_DECAY,
+  DEFAULT_SCORING_RULES,
+  SCORE_CATEGORIES,
+  type CategoryExplanation,
+  type DecaySetting,
+  type PointsMap,
+  type ScoreBreakdown,
+  type ScoreExplanation,
+  type ScoreLineItem,
+  type ScoreUncertainty,
+  type ScoringDecay,
+  type ScoringRules,
+  type ScoringWeights,
+} from "@/types";
+
+// Dates arrive as Date from Prisma and as ISO strings from API JSON
+type Timestamp = Date | string;
+
+// Fields shared by every scored record: id and the descriptive fields only
+// label explanation line items, sourceUrl feeds source reliability
+interface ScorableRecord {
+  id?: string;
+  sourceUrl?: string | null;
+  createdAt?: Timestamp;
+}
+
+export interface ScorableChef {
+  accolades: (ScorableRecord & {
+    type: string;
+    detail: string | null;
+    restaurant?: string | null;
+    year?: number | null;
+    endYear?: number | null; // first year it is no longer held
+    endReason?: string | null;
+  })[];
+  careerEntries: (ScorableRecord & {
+    isCurrent: boolean;
+    startYear: number | null;
+    endYear: number | null;
+    role: string;
+    restaurant?: string;
+  })[];
+  recognitions: (ScorableRecord & { title?: string; category: string | null; year?: number | null })[];
+  publicSignals: (ScorableRecord & {
+    platform: string;
+    metric?: string | null;
+    value: number | null;
+    readings?: SignalReading[]; // value history, for momentum
+  })[];
+  peerStandings: (ScorableRecord & { type: string; relatedChef?: string | null })[];
+  yearsExperience?: number | null;
+}
+
+export interface SignalReading {
+  value: number | null;
+  recordedAt: Timestamp;
+}
+
+export interface SignalGrowth {
+  fromValue: number;
+  toValue: number;
+  fromDate: string;
+  toDate: string;
+  rate: number; // fractional change, 0.1 = +10%
+}
+
+// Profile fields counted by data completeness, alongside the four record types
+const COMPLETENESS_FIELDS = ["city", "country", "currentRestaurant", "cuisineSpecialties", "yearsExperience", "photoUrl", "bio"];
+const COMPLETENESS_RELATIONS = ["accolades", "careerEntries", "publicSignals", "peerStandings"] as const;
+
+export type CompletenessCounts = Record<(typeof COMPLETENESS_RELATIONS)[number], number>;
+
+const ACCOLADE_LABELS: Record<string, string> = {
+  MICHELIN_STAR: "Michelin",
+  MICHELIN_GREEN_STAR: "Michelin Green Star",
+  MICHELIN_BIB_GOURMAND: "Michelin Bib Gourmand",
+  MICHELIN_STAR_LOSS: "Michelin star lost",
+  JAMES_BEARD: "James Beard",
+  WORLDS_50_BEST: "World's 50 Best",
+  ASIAS_50_BEST: "Asia's 50 Best",
+  LATIN_AMERICAS_50_BEST: "Latin America's 50 Best",
+  BOCUSE_DOR: "Bocuse d'Or",
+  GAULT_MILLAU: "Gault&Millau",
+  LA_LISTE: "La Liste",
+  OTHER: "Other honour",
+};
+
+// Guide distinctions and list placings are re-awarded every year. Stars and Bib
+// Gourmand rate the same table, so they share a history per restaurant; the Green
+// Star, the other guides and each ranked list have their own
+const GUIDE_HISTORY: Record<string, string> = {
+  MICHELIN_STAR: "rating",
+  MICHELIN_BIB_GOURMAND: "rating",
+  MICHELIN_GREEN_STAR: "green",
+  GAULT_MILLAU: "gault-millau",
+  LA_LISTE: "la-liste",
+  WORLDS_50_BEST: "worlds",
+  ASIAS_50_BEST: "asia",
+  LATIN_AMERICAS_50_BEST: "latam",
+};
+
+const RANKED_LISTS = ["WORLDS_50_BEST", "ASIAS_50_BEST", "LATIN_AMERICAS_50_BEST"];
+// Editions of these are lists rather than guides, for the superseded note
+const LIST_EDITIONS = [...RANKED_LISTS, "LA_LISTE"];
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
+
+function pointsFor(key: string | null, points: PointsMap): number {
+  return (key && points[key]) || 0;
+}
+
+/**
+ * Age of a record in years, from its year when known and otherwise from when it
+ * was recorded. Undated records count as current.
+ */
+export function ageInYears(year: number | null | undefined, createdAt: Timestamp | undefined, now: Date): number {
+  if (year) return Math.max(0, now.getFullYear() - year);
+  if (createdAt) return Math.max(0, (now.getTime() - new Date(createdAt).getTime()) / MS_PER_YEAR);
+  return 0;
+}
+
+/**
+ * Guide distinctions a later guide year for the same restaurant replaces,
+ * mapped to that year. Records without a restaurant or year stand alone.
+ */
+function supersededGuideYears(accolades: ScorableChef["accolades"]): Map<ScorableChef["accolades"][number], number> {
+  const latest = new Map<string, number>();
+  const keyOf = (a: ScorableChef["accolades"][number]) =>
+    GUIDE_HISTORY[a.type] && a.restaurant && a.year ? `${GUIDE_HISTORY[a.type]}:${a.restaurant.toLowerCase()}` : null;
+  for (const a of accolades) {
+    const key = keyOf(a);
+    if (key) latest.set(key, Math.max(latest.get(key) ?? 0, a.year!));
+  }
+  const superseded = new Map<ScorableChef["accolades"][number], number>();
+  for (const a of accolades) {
+    const key = keyOf(a);
+    if (key && latest.get(key)! > a.year!) superseded.set(a, latest.get(key)!);
+  }
+  return superseded;
+}
+
+/** The year an accolade stopped counting, if it had ended by `now`. */
+function endedBy(a: ScorableChef["accolades"][number], now: Date): number | null {
+  return a.endYear != null && a.endYear <= now.getFullYear() ? a.endYear : null;
+}
+
+/** Rank of a list placing, recorded as "#12 World's 50 Best Restaurants"; null when unranked. */
+export function listRank(a: { type: string; detail: string | null }): number | null {
+  if (!RANKED_LISTS.includes(a.type)) return null;
+  const match = a.detail?.match(/#(\d+)/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/** The same restaurant's placing on the same list in the latest earlier year, for year-over-year movement. */
+export function previousPlacing<T extends { type: string; detail: string | null; restaurant?: string | null; year?: number | null }>(
+  accolades: T[],
+  placing: T
+): { rank: number; year: number } | null {
+  if (listRank(placing) == null || !placing.year) return null;
+  const earlier = accolades
+    .filter((a) =>
+      a.type === placing.type && a.year != null && a.year < placing.year! && listRank(a) != null &&
+      (a.restaurant ?? "").toLowerCase() === (placing.restaurant ?? "").toLowerCase()
+    )
+    .sort((x, y) => y.year! - x.year!)[0];
+  return earlier ? { rank: listRank(earlier)!, year: earlier.year! } : null;
+}
+
+// Star losses are recorded as "3 → 2 stars"; anything else counts as one star
+function starsLost(detail: string | null): number {
+  const match = detail?.match(/(\d)\s*→\s*(\d)/);
+  return match ? Math.max(0, parseInt(match[1]) - parseInt(match[2])) : 1;
+}
+
+// Recorded as "Gold", "Silver (United States)", "Best Fish"...; anything off the podium is a special prize
+function bocuseDorPrize(detail: string | null): string {
+  const match = detail?.match(/\b(gold|silver|bronze)\b/i);
+  return match ? match[1].toUpperCase() : "SPECIAL";
+}
+
+// A position is as recent as its latest evidence: current, its end or start
+// year, or when it was recorded
+function careerAge(entry: ScorableChef["careerEntries"][number], now: Date): number {
+  if (entry.isCurrent) return 0;
+  const lastYear = Math.max(entry.startYear || 0, entry.endYear || 0);
+  const byYear = lastYear ? ageInYears(lastYear, undefined, now) : Infinity;
+  return Math.min(byYear, ageInYears(null, entry.createdAt, now));
+}
+
+/** Weight (0-1) a record of the given age carries under a category's decay curve. */
+export function decayFactor(setting: DecaySetting, age: number, rules: ScoringRules): number {
+  const years = setting.years ?? rules.rollingWindowYears;
+  if (years <= 0) return 1;
+  switch (setting.curve) {
+    case "step":
+      return age <= years ? 1 : 0;
+    case "linear":
+      return Math.max(0, 1 - age / years);
+    case "exponential":
+      return Math.pow(0.5, age / years);
+  }
+}
+
+/** One-line, human-readable summary of a category's decay curve. */
+export function describeDecay(setting: DecaySetting, rules: ScoringRules): string {
+  const years = setting.years ?? rules.rollingWindowYears;
+  if (years <= 0) return "No decay: every record counts in full";
+  switch (setting.curve) {
+    case "step":
+      return `Full weight for ${years} years, then dropped`;
+    case "linear":
+      return `Fades linearly to zero over ${years} years`;
+    case "exponential":
+      return `Half weight every ${years} years`;
+  }
+}
+
+/**
+ * Growth of a signal over the trailing window ending at `now`: the latest
+ * reading against the last one at or before the window start, or the earliest
+ * one when history is shorter than the window. Readings after `now` are
+ * ignored. Null without two readings or a positive starting value.
+ */
+export function signalGrowth(readings: SignalReading[], windowDays: number, now: Date = new Date()): SignalGrowth | null {
+  const points = readings
+    .filter((r): r is SignalReading & { value: number } => r.value != null)
+    .map((r) => ({ value: r.value, time: new Date(r.recordedAt).getTime() }))
+    .filter((r) => r.time <= now.getTime())
+    .sort((a, b) => a.time - b.time);
+  if (points.length < 2) return null;
+
+  const latest = points[points.length - 1];
+  const windowStart = now.getTime() - windowDays * MS_PER_DAY;
+  const baseline = [...points].reverse().find((r) => r.time <= windowStart) ?? points[0];
+  if (baseline === latest || baseline.value <= 0) return null;
+
+  return {
+    fromValue: baseline.value,
+    toValue: latest.value,
+    fromDate: new Date(baseline.time).toISOString(),
+    toDate: new Date(latest.time).toISOString(),
+    rate: (latest.value - baseline.value) / baseline.value,
+  };
+}
+
+export function calculateBreakdown(
+  chef: ScorableChef,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  decay: ScoringDecay = DEFAULT_DECAY,
+  now: Date = new Date()
+): ScoreBreakdown {
+  return explainBreakdown(chef, rules, decay, now).breakdown;
+}
+
+/**
+ * Score a chef and itemise every record behind each category: the points it
+ * contributed, its decay weight, and the caps that limited the total.
+ * calculateBreakdown is this function with the line items discarded.
+ */
+export function explainBreakdown(
+  chef: ScorableChef,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  decay: ScoringDecay = DEFAULT_DECAY,
+  now: Date = new Date()
+): ScoreExplanation {
+  // Pair each record with its decay weight; fully decayed records score nothing
+  function weigh<T>(items: T[], category: keyof ScoreBreakdown, age: (item: T) => number) {
+    return items.map((item) => ({ item, weight: decayFactor(decay[category], age(item), rules) }));
+  }
+  const counted = <T extends { weight: number }>(items: T[]) => items.filter((x) => x.weight > 0);
+
+  function line(
+    recordId: string | null | undefined,
+    label: string,
+    points: number,
+    opts: { year?: number | null; weight?: number; note?: string; excludedNote?: string } = {}
+  ): ScoreLineItem {
+    const decayWeight = opts.weight ?? 1;
+    return {
+      recordId: recordId ?? null,
+      label,
+      year: opts.year ?? null,
+      points: round1(points),
+      decayWeight: Math.round(decayWeight * 1000) / 1000,
+      excluded: decayWeight === 0 || opts.excludedNote != null,
+      note: opts.excludedNote ?? (decayWeight === 0 ? "Excluded: fully decayed" : opts.note ?? null),
+    };
+  }
+
+  // Every category is capped at 100; the capped, rounded score is the breakdown value
+  function category(key: keyof ScoreBreakdown, uncapped: number, items: ScoreLineItem[], capsHit: string[]): CategoryExplanation {
+    if (uncapped > 100) capsHit.push("Category capped at 100");
+    return {
+      category: key,
+      score: round1(Math.min(100, uncapped)),
+      uncapped: round1(uncapped),
+      decay: describeDecay(decay[key], rules),
+      items,
+      capsHit,
+    };
+  }
+
+  // Accolades no longer held score nothing, however recent
+  const allAccolades = weigh(chef.accolades, "formalAccolades", (a) => ageInYears(a.year, a.createdAt, now))
+    .map((x) => (endedBy(x.item, now) != null ? { ...x, weight: 0 } : x));
+  const allCareer = weigh(chef.careerEntries, "careerTrack", (c) => careerAge(c, now));
+  const allRecognitions = weigh(chef.recognitions, "industryRecognition", (r) => ageInYears(r.year, r.createdAt, now));
+  const allSignals = weigh(chef.publicSignals, "publicSignals", (s) => ageInYears(null, s.createdAt, now));
+  const allPeers = weigh(chef.peerStandings, "peerStanding", (p) => ageInYears(null, p.createdAt, now));
+
+  // Formal Accolades (raw 0-100). Only active accolades and each restaurant's latest guide count, and star losses deduct points
+  const fa = rules.formalAccolades;
+  const superseded = supersededGuideYears(chef.accolades);
+  const accolades = counted(allAccolades).filter(({ item }) => !superseded.has(item) && item.type !== "MICHELIN_STAR_LOSS");
+  const losses = counted(allAccolades).filter(({ item }) => item.type === "MICHELIN_STAR_LOSS");
+  const lossPoints = (a: ScorableChef["accolades"][number]) => starsLost(a.detail) * fa.michelinStarLossPoints;
+  const awardPoints = (a: ScorableChef["accolades"][number]) => {
+    if (a.type === "MICHELIN_STAR") {
+      const stars = String(parseInt(a.detail || "1"));
+      return fa.michelinStarPoints[stars] ?? fa.michelinStarPoints["1"] ?? 0;
+    }
+    if (a.type === "GAULT_MILLAU") {
+      const toques = String(parseInt(a.detail || "1"));
+      return fa.gaultMillauToquePoints[toques] ?? fa.gaultMillauToquePoints["1"] ?? 0;
+    }
+    if (a.type === "BOCUSE_DOR") {
+      return fa.bocuseDorPrizePoints[bocuseDorPrize(a.detail)] ?? 0;
+    }
+    if (a.type === "LA_LISTE") {
+      // Recorded as "97.5 points"; unscored entries count as a perfect score
+      const score = parseFloat(a.detail ?? "");
+      const points = fa.accoladePoints.LA_LISTE || 0;
+      if (Number.isNaN(score)) return points;
+      return points * Math.max(0, (score - fa.laListeScoreFloor) / (100 - fa.laListeScoreFloor));
+    }
+    const rank = listRank(a);
+    const points = fa.accoladePoints[a.type] || 0;
+    return rank ? Math.max(0, points - (rank - 1) * fa.listPlacePoints) : points;
+  };
+  let headline = 0;
+  let headlineIndex = -1;
+  let otherWeight = 0;
+  accolades.forEach(({ item: a, weight }, i) => {
+    const points = awardPoints(a) * weight;
+    if (points > headline) {
+      headline = points;
+      headlineIndex = i;
+    }
+    if (a.type === "OTHER") otherWeight = Math.max(otherWeight, weight);
+  });
+  const accoladeWeight = sum(accolades.map((a) => a.weight));
+  const rawBonus = Math.max(0, accoladeWeight - 1) * fa.additionalAccoladePoints;
+  const extraBonus = Math.min(fa.additionalAccoladeCap, rawBonus);
+  const otherScore = fa.otherPoints * otherWeight * fa.otherMultiplier;
+  const lossPenalty = sum(losses.map(({ item, weight }) => lossPoints(item) * weight));
+  const faUncapped = Math.max(0, headline + extraBonus + otherScore - lossPenalty);
+
+  const faItems = allAccolades.map(({ item: a, weight }) => {
+    const label = `${ACCOLADE_LABELS[a.type] ?? a.type}${a.detail ? ` – ${a.detail}` : ""}${a.restaurant ? ` (${a.restaurant})` : ""}`;
+    const ended = endedBy(a, now);
+    if (ended != null) {
+      const excludedNote = `Excluded: no longer held since ${ended}${a.endReason ? ` (${a.endReason.toLowerCase().replace(/_/g, " ")})` : ""}`;
+      return line(a.id, label, 0, { year: a.year, excludedNote });
+    }
+    if (a.type === "MICHELIN_STAR_LOSS") {
+      return line(a.id, label, -lossPoints(a) * weight, { year: a.year, weight, note: `${fa.michelinStarLossPoints} deducted per star lost` });
+    }
+    if (superseded.has(a)) {
+      const edition = LIST_EDITIONS.includes(a.type) ? "list" : "guide";
+      return line(a.id, label, 0, { year: a.year, weight, note: `Superseded by the ${superseded.get(a)} ${edition}` });
+    }
+    const isHeadline = headlineIndex >= 0 && accolades[headlineIndex].item === a;
+    return isHeadline
+      ? line(a.id, label, headline, { year: a.year, weight, note: "Headline award: the best one counts" })
+      : line(a.id, label, 0, { year: a.year, weight, note: "Counts toward the additional-accolade bonus" });
+  });
+  const faCaps: string[] = [];
+  if (lossPenalty > headline + extraBonus + otherScore) faCaps.push("Star-loss deductions floored at 0");
+  if (extraBonus > 0) {
+    if (rawBonus > extraBonus) faCaps.push(`Additional-accolade bonus capped at ${fa.additionalAccoladeCap}`);
+    faItems.push(line(null, "Additional-accolade bonus", extraBonus, {
+      note: `${fa.additionalAccoladePoints} per accolade beyond the first`,
+    }));
+  }
+  if (otherScore > 0) {
+    faItems.push(line(null, "Other honours", otherScore, { note: `${fa.otherPoints} × ${fa.otherMultiplier}` }));
+  }
+
+  // Career Track Record (raw 0-100)
+  const ct = rules.careerTrack;
+  const career = counted(allCareer);
+  const rawYearScore = (chef.yearsExperience || 0) * ct.pointsPerYear;
+  const yearScore = Math.min(ct.yearsCap, rawYearScore);
+  const rawPositionScore = sum(career.map((c) => c.weight)) * ct.pointsPerPosition;
+  const positionScore = Math.min(ct.positionsCap, rawPositionScore);
+  const execRole = new RegExp(ct.execRolePattern, "i");
+  const execWeight = Math.max(0, ...career.filter((c) => execRole.test(c.item.role)).map((c) => c.weight));
+  const roleScore = ct.otherRolePoints + (ct.execRolePoints - ct.otherRolePoints) * execWeight;
+  const ctUncapped = yearScore + positionScore + roleScore;
+
+  const ctCaps: string[] = [];
+  const ctItems: ScoreLineItem[] = [
+    line(null, `${chef.yearsExperience || 0} years of experience`, yearScore, { note: `${ct.pointsPerYear} per year` }),
+  ];
+  if (rawYearScore > yearScore) ctCaps.push(`Experience capped at ${ct.yearsCap}`);
+  for (const { item: c, weight } of allCareer) {
+    ctItems.push(line(c.id, c.restaurant ? `${c.role} at ${c.restaurant}` : c.role, weight * ct.pointsPerPosition, {
+      year: c.endYear ?? c.startYear,
+      weight,
+      note: c.isCurrent ? "Current position" : undefined,
+    }));
+  }
+  if (rawPositionScore > positionScore) {
+    ctCaps.push(`Positions capped at ${ct.positionsCap}`);
+    ctItems.push(line(null, "Positions cap", positionScore - rawPositionScore));
+  }
+  ctItems.push(line(null, execWeight > 0 ? "Executive role" : "Role level", roleScore, {
+    note: execWeight > 0 && execWeight < 1 ? `Executive role at ${Math.round(execWeight * 100)}% weight` : undefined,
+  }));
+
+  // Industry Recognition (raw 0-100)
+  const ir = rules.industryRecognition;
+  const recognitionPoints = (r: ScorableChef["recognitions"][number]) =>
+    ir.pointsPerRecognition + pointsFor(r.category, ir.categoryPoints);
+  const irUncapped = sum(counted(allRecognitions).map(({ item, weight }) => weight * recognitionPoints(item)));
+  const irItems = allRecognitions.map(({ item: r, weight }) =>
+    line(r.id, r.title || r.category || "Recognition", weight * recognitionPoints(r), {
+      year: r.year,
+      weight,
+      note: r.category ?? undefined,
+    })
+  );
+
+  // Public Signals (raw 0-100)
+  const ps = rules.publicSignals;
+  const signals = counted(allSignals);
+  const signalValue = sum(signals.map(({ item, weight }) => (item.value || 0) * weight));
+  const reach = Math.min(ps.followerCap, signalValue / ps.followerDivisor);
+  const psCaps: string[] = [];
+  const psItems = allSignals.map(({ item: s, weight }) =>
+    line(s.id, [s.platform, s.metric].filter(Boolean).join(" "), weight * ps.pointsPerSignal, {
+      weight,
+      note: s.value != null ? `${s.value.toLocaleString("en-US")} toward reach` : undefined,
+    })
+  );
+  if (signalValue / ps.followerDivisor > reach) psCaps.push(`Reach capped at ${ps.followerCap}`);
+  psItems.push(line(null, "Audience reach", reach, { note: `1 point per ${ps.followerDivisor.toLocaleString("en-US")}` }));
+
+  // Momentum: audience growth over the trailing window
+  let rawMomentum = 0;
+  for (const { item: s, weight } of signals) {
+    const growth = signalGrowth(s.readings ?? [], ps.momentumWindowDays, now);
+    if (!growth || growth.rate <= 0) continue;
+    const points = growth.rate * 100 * ps.momentumPointsPerPct * weight;
+    rawMomentum += points;
+    psItems.push(line(null, `Momentum – ${s.platform}`, points, {
+      note: `+${round1(growth.rate * 100)}% since ${growth.fromDate.slice(0, 10)}`,
+    }));
+  }
+  const momentum = Math.min(ps.momentumCap, rawMomentum);
+  if (rawMomentum > momentum) {
+    psCaps.push(`Momentum capped at ${ps.momentumCap}`);
+    psItems.push(line(null, "Momentum cap", momentum - rawMomentum));
+  }
+
+  const psUncapped = sum(signals.map((s) => s.weight)) * ps.pointsPerSignal + reach + momentum;
+
+  // Peer Standing (raw 0-100)
+  const pr = rules.peerStanding;
+  const peerPoints = (p: ScorableChef["peerStandings"][number]) => pr.pointsPerPeer + pointsFor(p.type, pr.typePoints);
+  const prUncapped = sum(counted(allPeers).map(({ item, weight }) => weight * peerPoints(item)));
+  const prItems = allPeers.map(({ item: p, weight }) =>
+    line(p.id, p.relatedChef ? `${p.type} – ${p.relatedChef}` : p.type, weight * peerPoints(p), { weight })
+  );
+
+  const categories = [
+    category("formalAccolades", faUncapped, faItems, faCaps),
+    category("careerTrack", ctUncapped, ctItems, ctCaps),
+    category("industryRecognition", irUncapped, irItems, []),
+    category("publicSignals", psUncapped, psItems, psCaps),
+    category("peerStanding", prUncapped, prItems, []),
+  ];
+  const breakdown = {} as ScoreBreakdown;
+  for (const c of categories) breakdown[c.category] = c.score;
+  return { breakdown, categories };
+}
+
+/**
+ * Share of profile fields filled and record types present, 0-100, with the
+ * names of what is missing. Used by the data_completeness health check and the
+ * uncertainty band.
+ */
+export function dataCompleteness(
+  profile: Record<string, unknown>,
+  counts: CompletenessCounts
+): { completeness: number; missing: string[] } {
+  const missing = COMPLETENESS_FIELDS.filter((f) => profile[f] == null);
+  for (const relation of COMPLETENESS_RELATIONS) {
+    if (counts[relation] === 0) missing.push(relation);
+  }
+  const total = COMPLETENESS_FIELDS.length + COMPLETENESS_RELATIONS.length;
+  return { completeness: Math.round(((total - missing.length) / total) * 100), missing };
+}
+
+/**
+ * Uncertainty band around a total score. The margin grows with missing data
+ * and with the share of records that have no source to verify them.
+ */
+export function calculateUncertainty(
+  chef: ScorableChef & Record<string, unknown>,
+  totalScore: number,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): ScoreUncertainty {
+  const u = rules.uncertainty;
+  const { completeness } = dataCompleteness(chef, {
+    accolades: chef.accolades.length,
+    careerEntries: chef.careerEntries.length,
+    publicSignals: chef.publicSignals.length,
+    peerStandings: chef.peerStandings.length,
+  });
+
+  const records: ScorableRecord[] = [
+    ...chef.accolades, ...chef.careerEntries, ...chef.recognitions, ...chef.publicSignals, ...chef.peerStandings,
+  ];
+  const reliability = records.length === 0
+    ? u.unsourcedReliability
+    : sum(records.map((r) => (r.sourceUrl ? 1 : u.unsourcedReliability))) / records.length;
+
+  const margin = u.baseMargin + u.completenessPenalty * (1 - completeness / 100) + u.reliabilityPenalty * (1 - reliability);
+  return {
+    completeness,
+    reliability: Math.round(reliability * 100) / 100,
+    margin: round1(margin),
+    low: round1(Math.max(0, totalScore - margin)),
+    high: round1(Math.min(100, totalScore + margin)),
+  };
+}
+
+/**
+ * Parse a snapshot's stored breakdown JSON. Snapshots published before a
+ * category existed simply lack that key, so missing categories read as 0.
+ */
+export function parseBreakdown(raw: string | null): ScoreBreakdown | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<ScoreBreakdown>;
+    const breakdown = {} as ScoreBreakdown;
+    for (const key of SCORE_CATEGORIES) {
+      breakdown[key] = typeof parsed[key] === "number" ? parsed[key] : 0;
+    }
+    return breakdown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the scoring model a snapshot stored at publish time. Weights and decay
+ * were not recorded before snapshots carried them, so those read as null.
+ */
+export function parseSnapshotScoring(snapshot: { weights: string | null; decay: string | null }): {
+  weights: ScoringWeights | null;
+  decay: ScoringDecay | null;
+} {
+  let weights: ScoringWeights | null = null;
+  let decay: ScoringDecay | null = null;
+  try {
+    if (snapshot.weights) {
+      const parsed = JSON.parse(snapshot.weights) as Partial<ScoringWeights>;
+      weights = {} as ScoringWeights;
+      for (const key of SCORE_CATEGORIES) {
+        weights[key] = typeof parsed[key] === "number" ? parsed[key] : 0;
+      }
+    }
+  } catch {
+    weights = null;
+  }
+  try {
+    if (snapshot.decay) decay = parseDecay(JSON.parse(snapshot.decay));
+  } catch {
+    decay = null;
+  }
+  return { weights, decay };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeSection<T extends object>(defaults: T, input: unknown, path: string): T {
+  if (input === undefined) return defaults;
+  if (!isPlainObject(input)) throw new Error(`${path} must be an object`);
+
+  const merged = { ...defaults } as Record<string, unknown>;
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = input[key];
+    if (value === undefined) continue;
+
+    if (typeof fallback === "number") {
+      if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`${path}.${key} must be a number`);
+      merged[key] = value;
+    } else if (typeof fallback === "string") {
+      if (typeof value !== "string") throw new Error(`${path}.${key} must be a string`);
+      merged[key] = value;
+    } else {
+      // Points map: keys the set lacks come from the defaults, so types added since it was saved
+      // still score; a key set to null stays removed
+      if (!isPlainObject(value)) throw new Error(`${path}.${key} must be an object of points`);
+      for (const [k, v] of Object.entries(value)) {
+        if (v !== null && (typeof v !== "number" || !Number.isFinite(v))) {
+          throw new Error(`${path}.${key}.${k} must be a number or null`);
+        }
+      }
+      merged[key] = { ...(fallback as PointsMap), ...value };
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Layer partial overrides onto a base rule set, one section at a time. Points
+ * maps are merged key by key so overriding one award keeps the others; pass the
+ * result through parseRules to validate it.
+ */
+export function applyRuleOverrides(base: ScoringRules, overrides: unknown): unknown {
+  if (!isPlainObject(overrides)) throw new Error("ruleOverrides must be an object");
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [section, value] of Object.entries(overrides)) {
+    const current = merged[section];
+    if (!isPlainObject(current) || !isPlainObject(value)) {
+      merged[section] = value;
+      continue;
+    }
+    const next: Record<string, unknown> = { ...current };
+    for (const [key, v] of Object.entries(value)) {
+      next[key] = isPlainObject(current[key]) && isPlainObject(v) ? { ...current[key], ...v } : v;
+    }
+    merged[section] = next;
+  }
+  return merged;
+}
+
+/**
+ * Validate a rules object and fill anything it omits from the defaults, so rule
+ * sets saved before a field existed keep evaluating. Throws on invalid input.
+ */
+export function parseRules(input: unknown): ScoringRules {
+  if (!isPlainObject(input)) throw new Error("rules must be an object");
+  const d = DEFAULT_SCORING_RULES;
+
+  const rollingWindowYears = input.rollingWindowYears ?? d.rollingWindowYears;
+  if (typeof rollingWindowYears !== "number" || rollingWindowYears < 0) {
+    throw new Error("rollingWindowYears must be a non-negative number");
+  }
+
+  const rules: ScoringRules = {
+    rollingWindowYears,
+    formalAccolades: mergeSection(d.formalAccolades, input.formalAccolades, "formalAccolades"),
+    careerTrack: mergeSection(d.careerTrack, input.careerTrack, "careerTrack"),
+    industryRecognition: mergeSection(d.industryRecognition, input.industryRecognition, "industryRecognition"),
+    publicSignals: mergeSection(d.publicSignals, input.publicSignals, "publicSignals"),
+    peerStanding: mergeSection(d.peerStanding, input.peerStanding, "peerStanding"),
+    uncertainty: mergeSection(d.uncertainty, input.uncertainty, "uncertainty"),
+  };
+
+  try {
+    new RegExp(rules.careerTrack.execRolePattern, "i");
+  } catch {
+    throw new Error("careerTrack.execRolePattern is not a valid regular expression");
+  }
+  if (rules.publicSignals.followerDivisor <= 0) throw new Error("publicSignals.followerDivisor must be positive");
+  if (rules.publicSignals.momentumWindowDays <= 0) throw new Error("publicSignals.momentumWindowDays must be positive");
+  const u = rules.uncertainty;
+  if (u.unsourcedReliability < 0 || u.unsourcedReliability > 1) {
+    throw new Error("uncertainty.unsourcedReliability must be between 0 and 1");
+  }
+
+  return rules;
+}
+
+/**
+ * Validate per-category decay settings, keeping the base setting for any
+ * category the input omits. Throws on an unknown curve or a negative horizon.
+ */
+export function parseDecay(input: unknown, base: ScoringDecay = DEFAULT_DECAY): ScoringDecay {
+  if (input === undefined || input === null) return base;
+  if (!isPlainObject(input)) throw new Error("decay must be an object");
+
+  const decay = { ...base };
+  for (const key of SCORE_CATEGORIES) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (!isPlainObject(value)) throw new Error(`decay.${key} must be an object`);
+
+    const curve = value.curve ?? base[key].curve;
+    if (!DECAY_CURVES.includes(curve as DecaySetting["curve"])) {
+      throw new Error(`decay.${key}.curve must be one of ${DECAY_CURVES.join(", ")}`);
+    }
+    const years = value.years ?? null;
+    if (years !== null && (typeof years !== "number" || !Number.isFinite(years) || years < 0)) {
+      throw new Error(`decay.${key}.years must be a non-negative number or null`);
+    }
+    decay[key] = { curve: curve as DecaySetting["curve"], years };
+  }
+  return decay;
+}
@@ -1,5 +1,31 @@
 import { prisma } from "./db";
-import { DEFAULT_WEIGHTS, type ScoreBreakdown, type ScoringWeights } from "@/types";
+import {
+  applyRuleOverrides,
+  calculateBreakdown,
+  calculateUncertainty,
+  explainBreakdown,
+  parseDecay,
+  parseRules,
+} from "./scoring-engine";
+import { PROVENANCE_INCLUDE, toRecordProvenance } from "./provenance";
+import { computeSubRankings, withDeltas } from "./sub-rankings";
+import {
+  DEFAULT_DECAY,
+  DEFAULT_SCORING_RULES,
+  DEFAULT_WEIGHTS,
+  SCORE_CATEGORIES,
+  type DecayCurve,
+  type ScoreBreakdown,
+  type ScoreExplanation,
+  type ScoreUncertainty,
+  type ScoringDecay,
+  type ScoringRules,
+  type ScoringWeights,
+} from "@/types";
+
+// Server callers keep importing the calculation from here; the implementation
+// lives in the isomorphic engine so the browser computes identical breakdowns.
+export { calculateBreakdown, calculateUncertainty };
 
 export async function getWeights(): Promise<ScoringWeights> {
   const rows = await prisma.scoringWeight.findMany();
@@ -13,101 +39,62 @@ export async function getWeights(): Promise<ScoringWeights> {
   return weights;
 }
 
-function scoreMichelinStars(accolades: { type: string; detail: string | null }[]): number {
-  const michelin = accolades.filter((a) => a.type === "MICHELIN_STAR");
-  if (michelin.length === 0) return 0;
-  let best = 0;
-  for (const m of michelin) {
-    const stars = parseInt(m.detail || "1");
-    if (stars === 3) best = Math.max(best, 100);
-    else if (stars === 2) best = Math.max(best, 70);
-    else best = Math.max(best, 40);
+/** Per-category decay curves, stored on the same rows as the weights. */
+export async function getDecay(): Promise<ScoringDecay> {
+  const rows = await prisma.scoringWeight.findMany();
+  const decay = { ...DEFAULT_DECAY };
+  for (const row of rows) {
+    if (row.category in decay) {
+      decay[row.category as keyof ScoringDecay] = { curve: row.decayCurve as DecayCurve, years: row.decayYears };
+    }
   }
-  return best;
+  return decay;
 }
 
-function scoreAccoladeType(accolades: { type: string }[], type: string, maxScore: number): number {
-  return accolades.some((a) => a.type === type) ? maxScore : 0;
+export interface ActiveRuleSet {
+  version: number;
+  rules: ScoringRules;
 }
 
-export function calculateBreakdown(chef: {
-  accolades: { type: string; detail: string | null; year: number | null; createdAt: Date }[];
-  careerEntries: { isCurrent: boolean; startYear: number | null; endYear: number | null; role: string; createdAt: Date }[];
-  publicSignals: { platform: string; value: number | null; createdAt: Date }[];
-  peerStandings: { type: string; createdAt: Date }[];
-  yearsExperience: number | null;
-}): ScoreBreakdown {
-  // 10-year rolling window
-  const cutoffYear = new Date().getFullYear() - 10;
-  const cutoffDate = new Date();
-  cutoffDate.setFullYear(cutoffDate.getFullYear() - 10);
-
-  // Filter accolades: use year field if set, otherwise fall back to createdAt
-  const recentAccolades = chef.accolades.filter((a) =>
-    a.year ? a.year >= cutoffYear : a.createdAt >= cutoffDate
-  );
-
-  // Filter career entries: include if current, or if startYear/endYear is within window, or createdAt is recent
-  const recentCareer = chef.careerEntries.filter((c) =>
-    c.isCurrent ||
-    (c.startYear && c.startYear >= cutoffYear) ||
-    (c.endYear && c.endYear >= cutoffYear) ||
-    c.createdAt >= cutoffDate
-  );
+/** Read-only lookup of the active rule set; null when none is marked active. */
+export async function findActiveRuleSet(): Promise<ActiveRuleSet | null> {
+  const active = await prisma.scoringRuleSet.findFirst({
+    where: { isActive: true },
+    orderBy: { version: "desc" },
+  });
+  return active ? { version: active.version, rules: parseRules(JSON.parse(active.rules)) } : null;
+}
 
-  // Filter public signals and peer standings by createdAt
-  const recentSignals = chef.publicSignals.filter((s) => s.createdAt >= cutoffDate);
-  const recentPeers = chef.peerStandings.filter((p) => p.createdAt >= cutoffDate);
-
-  // Formal Accolades (raw 0-100)
-  const michelinScore = scoreMichelinStars(recentAccolades);
-  const jbScore = scoreAccoladeType(recentAccolades, "JAMES_BEARD", 80);
-  const w50Score = scoreAccoladeType(recentAccolades, "WORLDS_50_BEST", 90);
-  const bocuseScore = scoreAccoladeType(recentAccolades, "BOCUSE_DOR", 85);
-  const otherAccoladeScore = scoreAccoladeType(recentAccolades, "OTHER", 30);
-  const formalAccolades = Math.min(100, Math.max(michelinScore, jbScore, w50Score, bocuseScore) +
-    (recentAccolades.length > 1 ? Math.min(20, (recentAccolades.length - 1) * 5) : 0) +
-    otherAccoladeScore * 0.3);
-
-  // Career Track Record (raw 0-100)
-  const years = chef.yearsExperience || 0;
-  const yearScore = Math.min(40, years * 2);
-  const positionCount = recentCareer.length;
-  const positionScore = Math.min(30, positionCount * 6);
-  const hasExecRole = recentCareer.some((c) =>
-    /chef.*owner|executive|head chef|chef de cuisine/i.test(c.role)
-  );
-  const roleScore = hasExecRole ? 30 : 15;
-  const careerTrack = Math.min(100, yearScore + positionScore + roleScore);
-
-  // Public Signals (raw 0-100)
-  const signalCount = recentSignals.length;
-  const totalSignalValue = recentSignals.reduce((sum, s) => sum + (s.value || 0), 0);
-  const publicSignals = Math.min(100,
-    signalCount * 15 + Math.min(50, totalSignalValue / 10000)
-  );
+/**
+ * Load the active rule set. The first call on an empty table stores the
+ * built-in defaults as version 1 so every snapshot can reference a real row.
+ */
+export async function getActiveRuleSet(): Promise<ActiveRuleSet> {
+  const active = await findActiveRuleSet();
+  if (active) return active;
 
-  // Peer Standing (raw 0-100)
-  const peerCount = recentPeers.length;
-  const mentored = recentPeers.filter((p) => p.type === "MENTORED").length;
-  const collabs = recentPeers.filter((p) => p.type === "COLLABORATION").length;
-  const endorsements = recentPeers.filter((p) => p.type === "ENDORSEMENT").length;
-  const peerStanding = Math.min(100,
-    peerCount * 10 + mentored * 15 + collabs * 10 + endorsements * 12
-  );
+  const latest = await prisma.scoringRuleSet.findFirst({ orderBy: { version: "desc" } });
+  if (latest) {
+    await prisma.scoringRuleSet.update({ where: { id: latest.id }, data: { isActive: true } });
+    return { version: latest.version, rules: parseRules(JSON.parse(latest.rules)) };
+  }
 
-  return {
-    formalAccolades: Math.round(formalAccolades * 10) / 10,
-    careerTrack: Math.round(careerTrack * 10) / 10,
-    publicSignals: Math.round(publicSignals * 10) / 10,
-    peerStanding: Math.round(peerStanding * 10) / 10,
-  };
+  const created = await prisma.scoringRuleSet.create({
+    data: {
+      version: 1,
+      name: "Default",
+      rules: JSON.stringify(DEFAULT_SCORING_RULES),
+      isActive: true,
+    },
+  });
+  return { version: created.version, rules: DEFAULT_SCORING_RULES };
 }
 
 export function calculateTotalScore(breakdown: ScoreBreakdown, weights: ScoringWeights): number {
   const total =
     breakdown.formalAccolades * weights.formalAccolades +
     breakdown.careerTrack * weights.careerTrack +
+    breakdown.industryRecognition * weights.industryRecognition +
     breakdown.publicSignals * weights.publicSignals +
     breakdown.peerStanding * weights.peerStanding;
   return Math.round(total * 10) / 10;
@@ -120,16 +107,59 @@ export async function calculateChefScore(chefId: string): Promise<{ total: numbe
       accolades: true,
       careerEntries: true,
       recognitions: true,
-      publicSignals: true,
+      publicSignals: { include: { readings: true } },
       peerStandings: true,
     },
   });
-  const weights = await getWeights();
-  const breakdown = calculateBreakdown(chef);
+  const { weights, rules, decay } = await resolveScoringModel();
+  const breakdown = calculateBreakdown(chef, rules, decay);
   const total = calculateTotalScore(breakdown, weights);
   return { total, breakdown };
 }
 
+export interface ChefScoreExplanation extends ScoreExplanation {
+  ruleSetVersion: number | null; // null while no rule set is stored and the defaults apply
+  weights: ScoringWeights;
+  totalScore: number;
+  uncertainty: ScoreUncertainty;
+}
+
+/**
+ * Line-item audit of a chef's live score, from the same engine call that scores them.
+ * Each line backed by a record carries that record's provenance.
+ */
+export async function explainChefScore(chefId: string): Promise<ChefScoreExplanation> {
+  const chef = await prisma.chef.findUniqueOrThrow({
+    where: { id: chefId },
+    include: {
+      accolades: { orderBy: { year: "desc" }, include: PROVENANCE_INCLUDE },
+      careerEntries: { orderBy: { startYear: "desc" }, include: PROVENANCE_INCLUDE },
+      recognitions: { orderBy: { year: "desc" }, include: PROVENANCE_INCLUDE },
+      publicSignals: { include: { ...PROVENANCE_INCLUDE, readings: true } },
+      peerStandings: { include: PROVENANCE_INCLUDE },
+    },
+  });
+  const { baseRuleSetVersion, weights, rules, decay } = await resolveScoringModel();
+  const explanation = explainBreakdown(chef, rules, decay);
+  const totalScore = calculateTotalScore(explanation.breakdown, weights);
+
+  const provenance = new Map(
+    [...chef.accolades, ...chef.careerEntries, ...chef.recognitions, ...chef.publicSignals, ...chef.peerStandings]
+      .map((r) => [r.id, toRecordProvenance(r)])
+  );
+  return {
+    ...explanation,
+    categories: explanation.categories.map((c) => ({
+      ...c,
+      items: c.items.map((item) => (item.recordId ? { ...item, provenance: provenance.get(item.recordId) ?? null } : item)),
+    })),
+    ruleSetVersion: baseRuleSetVersion,
+    weights,
+    totalScore,
+    uncertainty: calculateUncertainty(chef, totalScore, rules),
+  };
+}
+
 export async function recalculateAllScores(): Promise<void> {
   const chefs = await prisma.chef.findMany({
     where: { isArchived: false },
@@ -137,14 +167,14 @@ export async function recalculateAllScores(): Promise<void> {
       accolades: true,
       careerEntries: true,
       recognitions: true,
-      publicSignals: true,
+      publicSignals: { include: { readings: true } },
       peerStandings: true,
     },
   });
 
-  const weights = await getWeights();
+  const { weights, rules, decay } = await resolveScoringModel();
   const scored = chefs.map((chef) => {
-    const breakdown = calculateBreakdown(chef);
+    const breakdown = calculateBreakdown(chef, rules, decay);
     const total = calculateTotalScore(breakdown, weights);
     return { id: chef.id, total, breakdown };
   });
@@ -159,7 +189,116 @@ export async function recalculateAllScores(): Promise<void> {
   }
 }
 
+export interface SimulationInput {
+  weights?: Partial<ScoringWeights>;
+  ruleOverrides?: unknown;
+  decay?: unknown; // per-category settings; omitted categories keep the live curve
+}
+
+export interface SimulationEntry {
+  rank: number;
+  liveRank: number | null;
+  delta: number | null; // positive = moves up vs the live ranking
+  totalScore: number;
+  liveScore: number;
+  breakdown: ScoreBreakdown;
+  chef: { id: string; name: string; slug: string; currentRestaurant: string | null; city: string | null; country: string | null };
+}
+
+export interface ScoringModel {
+  baseRuleSetVersion: number | null;
+  weights: ScoringWeights;
+  rules: ScoringRules;
+  decay: ScoringDecay;
+}
+
+export interface SimulationResult extends ScoringModel {
+  entries: SimulationEntry[];
+  movedCount: number;
+}
+
+/**
+ * Layer hypothetical weights, rule overrides and decay onto the live model;
+ * with no input, the live model itself. Every scoring call site loads its
+ * inputs here. Read-only; throws if the input does not produce a valid model.
+ */
+export async function resolveScoringModel(input: SimulationInput = {}): Promise<ScoringModel> {
+  const live = await findActiveRuleSet();
+  const liveWeights = await getWeights();
+
+  const weights = { ...liveWeights };
+  for (const key of SCORE_CATEGORIES) {
+    const value = input.weights?.[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`weights.${key} must be a non-negative number`);
+    }
+    weights[key] = value;
+  }
+
+  const baseRules = live?.rules ?? DEFAULT_SCORING_RULES;
+  const rules = input.ruleOverrides === undefined
+    ? baseRules
+    : parseRules(applyRuleOverrides(baseRules, input.ruleOverrides));
+  const liveDecay = await getDecay();
+  const decay = parseDecay(input.decay, liveDecay);
+
+  return { baseRuleSetVersion: live?.version ?? null, weights, rules, decay };
+}
+
+/**
+ * Re-rank every chef under hypothetical weights and rule overrides, compared
+ * against the live ranking. Read-only: nothing is written to the database.
+ * Throws if the overrides do not produce a valid rule set or decay settings.
+ */
+export async function simulateRankings(input: SimulationInput): Promise<SimulationResult> {
+  const model = await resolveScoringModel(input);
+  const { weights, rules, decay } = model;
+
+  const chefs = await prisma.chef.findMany({
+    where: { isArchived: false },
+    include: {
+      accolades: true,
+      careerEntries: true,
+      recognitions: true,
+      publicSignals: { include: { readings: true } },
+      peerStandings: true,
+    },
+  });
+
+  const scored = chefs.map((chef) => {
+    const breakdown = calculateBreakdown(chef, rules, decay);
+    return { chef, breakdown, total: calculateTotalScore(breakdown, weights) };
+  });
+  scored.sort((a, b) => b.total - a.total);
+
+  const entries: SimulationEntry[] = scored.map((s, i) => ({
+    rank: i + 1,
+    liveRank: s.chef.rank,
+    delta: s.chef.rank ? s.chef.rank - (i + 1) : null,
+    totalScore: s.total,
+    liveScore: s.chef.totalScore,
+    breakdown: s.breakdown,
+    chef: {
+      id: s.chef.id,
+      name: s.chef.name,
+      slug: s.chef.slug,
+      currentRestaurant: s.chef.currentRestaurant,
+      city: s.chef.city,
+      country: s.chef.country,
+    },
+  }));
+
+  return {
+    ...model,
+    entries,
+    movedCount: entries.filter((e) => e.delta !== null && e.delta !== 0).length,
+  };
+}
+
 export async function createMonthlySnapshot(month: string, notes?: string): Promise<string> {
+  // Stores the defaults as version 1 on an empty table, so the snapshot references a real row
+  await getActiveRuleSet();
   await recalculateAllScores();
 
   const chefs = await prisma.chef.findMany({
@@ -168,19 +307,19 @@ export async function createMonthlySnapshot(month: string, notes?: string): Prom
       accolades: true,
       careerEntries: true,
       recognitions: true,
-      publicSignals: true,
+      publicSignals: { include: { readings: true } },
       peerStandings: true,
     },
     orderBy: { rank: "asc" },
   });
 
-  const weights = await getWeights();
+  const { baseRuleSetVersion: ruleSetVersion, weights, rules, decay } = await resolveScoringModel();
 
   // Get previous snapshot for delta calc
   const prevSnapshot = await prisma.monthlySnapshot.findFirst({
     where: { month: { lt: month } },
     orderBy: { month: "desc" },
-    include: { entries: true },
+    include: { entries: true, subRankings: true },
   });
 
   const prevRankMap = new Map<string, number>();
@@ -190,18 +329,28 @@ export async function createMonthlySnapshot(month: string, notes?: string): Prom
     }
   }
 
+  // Record the full model so the archived ranking can be reproduced
+  const scoring = {
+    ruleSetVersion,
+    weights: JSON.stringify(weights),
+    decay: JSON.stringify(decay),
+    rollingWindowYears: rules.rollingWindowYears,
+  };
   const snapshot = await prisma.monthlySnapshot.upsert({
     where: { month },
-    update: { notes, publishedAt: new Date() },
-    create: { month, notes, publishedAt: new Date() },
+    update: { notes, publishedAt: new Date(), ...scoring },
+    create: { month, notes, publishedAt: new Date(), ...scoring },
   });
 
   // Delete old entries if re-publishing
   await prisma.snapshotEntry.deleteMany({ where: { snapshotId: snapshot.id } });
+  await prisma.subRankingEntry.deleteMany({ where: { snapshotId: snapshot.id } });
 
+  const scored = [];
   for (const chef of chefs) {
-    const breakdown = calculateBreakdown(chef);
+    const breakdown = calculateBreakdown(chef, rules, decay);
     const total = calculateTotalScore(breakdown, weights);
+    const { low, high } = calculateUncertainty(chef, total, rules);
     const prevRank = prevRankMap.get(chef.id);
     const delta = prevRank && chef.rank ? prevRank - chef.rank : null;
 
@@ -211,11 +360,19 @@ export async function createMonthlySnapshot(month: string, notes?: string): Prom
         chefId: chef.id,
         rank: chef.rank!,
         totalScore: total,
+        scoreLow: low,
+        scoreHigh: high,
         breakdown: JSON.stringify(breakdown),
         delta,
       },
     });
+    scored.push({ chef, breakdown, totalScore: total });
   }
 
+  const subRankings = withDeltas(computeSubRankings(scored), prevSnapshot?.subRankings ?? []);
+  await prisma.subRankingEntry.createMany({
+    data: subRankings.map((r) => ({ snapshotId: snapshot.id, ...r })),
+  });
+
   return snapshot.id;
 }
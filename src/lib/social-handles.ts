@@ -0,0 +1,103 @@
+/**
+ * Social handles: turning what people paste (a handle, an @handle or a profile
+ * URL) into the stored handle for a platform, and a stored handle back into the
+ * profile URL collectors fetch. Shared by the profile page, the handles API,
+ * the review queue and the profile collectors.
+ */
+
+import { SOCIAL_PLATFORMS, type SocialPlatform } from "@/types";
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  INSTAGRAM: "Instagram",
+  TIKTOK: "TikTok",
+  YOUTUBE: "YouTube",
+  X: "X",
+  WEBSITE: "Website",
+};
+
+const PROFILE_HOSTS: Record<Exclude<SocialPlatform, "WEBSITE">, RegExp> = {
+  INSTAGRAM: /(^|\.)instagram\.com$/,
+  TIKTOK: /(^|\.)tiktok\.com$/,
+  YOUTUBE: /(^|\.)youtube\.com$/,
+  X: /(^|\.)(x|twitter)\.com$/,
+};
+
+// First path segments that are site pages rather than accounts
+const RESERVED_PATHS = new Set([
+  "p", "reel", "reels", "explore", "stories", "accounts", "tv",
+  "video", "tag", "discover", "share",
+  "watch", "results", "playlist", "shorts", "feed", "embed", "user", "c",
+  "home", "intent", "search", "hashtag", "i", "share.php",
+]);
+
+// A YouTube channel id, as opposed to an @handle
+const YOUTUBE_CHANNEL_ID = /^UC[\w-]{22}$/;
+
+export function isSocialPlatform(value: unknown): value is SocialPlatform {
+  return SOCIAL_PLATFORMS.includes(value as SocialPlatform);
+}
+
+/**
+ * The handle to store for what was entered, or null if it is not an account on
+ * that platform. Websites are stored as a full https URL.
+ */
+export function parseSocialHandle(platform: SocialPlatform, input: string): string | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  if (platform === "WEBSITE") {
+    try {
+      const url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+      return url.hostname.includes(".") ? url.toString().replace(/\/$/, "") : null;
+    } catch {
+      return null;
+    }
+  }
+
+  let handle = text;
+  if (/^(https?:\/\/)?([\w-]+\.)*[\w-]+\.com\//i.test(text)) {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+    } catch {
+      return null;
+    }
+    if (!PROFILE_HOSTS[platform].test(url.hostname.toLowerCase())) return null;
+    const segments = url.pathname.split("/").filter(Boolean);
+    // youtube.com/channel/<id> puts the account second
+    handle = platform === "YOUTUBE" && segments[0] === "channel" ? segments[1] ?? "" : segments[0] ?? "";
+    if (RESERVED_PATHS.has(handle.toLowerCase())) return null;
+  }
+
+  handle = handle.replace(/^@/, "");
+  if (platform === "YOUTUBE" && YOUTUBE_CHANNEL_ID.test(handle)) return handle;
+  return /^[\w][\w.-]{0,99}$/.test(handle) ? handle.replace(/\.+$/, "") : null;
+}
+
+/** The public profile URL for a stored handle. */
+export function socialProfileUrl(platform: SocialPlatform, handle: string): string {
+  switch (platform) {
+    case "INSTAGRAM":
+      return `https://www.instagram.com/${handle}/`;
+    case "TIKTOK":
+      return `https://www.tiktok.com/@${handle}`;
+    case "YOUTUBE":
+      return YOUTUBE_CHANNEL_ID.test(handle) ? `https://www.youtube.com/channel/${handle}` : `https://www.youtube.com/@${handle}`;
+    case "X":
+      return `https://x.com/${handle}`;
+    case "WEBSITE":
+      return handle;
+  }
+}
+
+/** "@handle" for accounts, the host for a website. */
+export function formatSocialHandle(platform: SocialPlatform, handle: string): string {
+  if (platform === "WEBSITE") {
+    try {
+      return new URL(handle).hostname.replace(/^www\./, "");
+    } catch {
+      return handle;
+    }
+  }
+  return platform === "YOUTUBE" && YOUTUBE_CHANNEL_ID.test(handle) ? handle : `@${handle}`;
+}
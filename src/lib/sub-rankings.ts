@@ -0,0 +1,196 @@
+/**
+ * Sub-rankings: chefs ranked within a country, city or cuisine by total score,
+ * and across everyone by a single score category ("top Peer Standing").
+ * Snapshots store them with month-over-month deltas; the live view is computed
+ * from current scores and compared against the latest snapshot.
+ */
+
+import { prisma } from "./db";
+import { calculateBreakdown, calculateTotalScore, resolveScoringModel } from "./scoring";
+import { SCORE_CATEGORIES, type ScoreBreakdown } from "@/types";
+
+export type SubRankingDimension = "country" | "city" | "cuisine" | "category";
+
+export const SUB_RANKING_DIMENSIONS: SubRankingDimension[] = ["country", "city", "cuisine", "category"];
+
+export interface SubRankable {
+  chef: { id: string; city: string | null; country: string | null; cuisineSpecialties: string | null };
+  totalScore: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface SubRankingRow {
+  dimension: SubRankingDimension;
+  key: string;
+  chefId: string;
+  rank: number;
+  score: number;
+}
+
+export interface SubRankingGroup {
+  dimension: SubRankingDimension;
+  key: string;
+  count: number;
+}
+
+export interface SubRankingEntry {
+  rank: number;
+  delta: number | null; // positive = moved up within this sub-ranking
+  score: number;
+  totalScore: number;
+  chef: { id: string; name: string; slug: string; currentRestaurant: string | null; city: string | null; country: string | null };
+}
+
+export function isSubRankingDimension(value: string | null): value is SubRankingDimension {
+  return SUB_RANKING_DIMENSIONS.includes(value as SubRankingDimension);
+}
+
+function parseCuisines(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string" && c.trim() !== "") : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowKey(dimension: string, key: string, chefId: string): string {
+  return `${dimension}\u0000${key}\u0000${chefId}`;
+}
+
+/**
+ * Rank every chef within each group they belong to. Ties on the group's score
+ * fall back to total score. Category rankings skip chefs scoring 0 there.
+ */
+export function computeSubRankings(scored: SubRankable[]): SubRankingRow[] {
+  const groups = new Map<string, { dimension: SubRankingDimension; key: string; members: { s: SubRankable; score: number }[] }>();
+  function add(dimension: SubRankingDimension, key: string | null, s: SubRankable, score: number) {
+    const k = key?.trim();
+    if (!k) return;
+    const id = `${dimension}\u0000${k}`;
+    const group = groups.get(id) ?? { dimension, key: k, members: [] };
+    group.members.push({ s, score });
+    groups.set(id, group);
+  }
+
+  for (const s of scored) {
+    add("country", s.chef.country, s, s.totalScore);
+    add("city", s.chef.city, s, s.totalScore);
+    for (const cuisine of new Set(parseCuisines(s.chef.cuisineSpecialties))) add("cuisine", cuisine, s, s.totalScore);
+    for (const category of SCORE_CATEGORIES) {
+      if (s.breakdown[category] > 0) add("category", category, s, s.breakdown[category]);
+    }
+  }
+
+  const rows: SubRankingRow[] = [];
+  for (const { dimension, key, members } of groups.values()) {
+    members.sort((a, b) => b.score - a.score || b.s.totalScore - a.s.totalScore);
+    members.forEach((m, i) => rows.push({ dimension, key, chefId: m.s.chef.id, rank: i + 1, score: m.score }));
+  }
+  return rows;
+}
+
+/** Attach month-over-month deltas by matching rows against a previous snapshot's sub-rankings. */
+export function withDeltas<T extends SubRankingRow>(
+  rows: T[],
+  previous: { dimension: string; key: string; chefId: string; rank: number }[]
+): (T & { delta: number | null })[] {
+  const prevRank = new Map(previous.map((p) => [rowKey(p.dimension, p.key, p.chefId), p.rank]));
+  return rows.map((r) => {
+    const prev = prevRank.get(rowKey(r.dimension, r.key, r.chefId));
+    return { ...r, delta: prev !== undefined ? prev - r.rank : null };
+  });
+}
+
+async function scoreLiveChefs() {
+  const chefs = await prisma.chef.findMany({
+    where: { isArchived: false },
+    include: {
+      accolades: true,
+      careerEntries: true,
+      recognitions: true,
+      publicSignals: { include: { readings: true } },
+      peerStandings: true,
+    },
+  });
+  const { weights, rules, decay } = await resolveScoringModel();
+  return chefs.map((chef) => {
+    const breakdown = calculateBreakdown(chef, rules, decay);
+    return { chef, breakdown, totalScore: calculateTotalScore(breakdown, weights) };
+  });
+}
+
+/** Every sub-ranking available right now, with its size. */
+export async function listSubRankingGroups(): Promise<SubRankingGroup[]> {
+  const rows = computeSubRankings(await scoreLiveChefs());
+  const counts = new Map<string, SubRankingGroup>();
+  for (const r of rows) {
+    const id = `${r.dimension}\u0000${r.key}`;
+    const group = counts.get(id) ?? { dimension: r.dimension, key: r.key, count: 0 };
+    group.count++;
+    counts.set(id, group);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/** Live sub-ranking, with deltas against the latest published snapshot. */
+export async function getLiveSubRanking(dimension: SubRankingDimension, key: string): Promise<SubRankingEntry[]> {
+  const scored = await scoreLiveChefs();
+  const rows = computeSubRankings(scored).filter((r) => r.dimension === dimension && r.key === key);
+
+  const latest = await prisma.monthlySnapshot.findFirst({
+    orderBy: { month: "desc" },
+    include: { subRankings: { where: { dimension, key } } },
+  });
+  const chefMap = new Map(scored.map((s) => [s.chef.id, s]));
+
+  return withDeltas(rows, latest?.subRankings ?? []).map((r) => {
+    const { chef, totalScore } = chefMap.get(r.chefId)!;
+    return {
+      rank: r.rank,
+      delta: r.delta,
+      score: r.score,
+      totalScore,
+      chef: {
+        id: chef.id,
+        name: chef.name,
+        slug: chef.slug,
+        currentRestaurant: chef.currentRestaurant,
+        city: chef.city,
+        country: chef.country,
+      },
+    };
+  });
+}
+
+/** Sub-ranking as published in a snapshot; null if there is no snapshot for the month. */
+export async function getSnapshotSubRanking(
+  month: string,
+  dimension: SubRankingDimension,
+  key: string
+): Promise<SubRankingEntry[] | null> {
+  const snapshot = await prisma.monthlySnapshot.findUnique({
+    where: { month },
+    include: {
+      entries: { select: { chefId: true, totalScore: true } },
+      subRankings: {
+        where: { dimension, key },
+        include: {
+          chef: { select: { id: true, name: true, slug: true, currentRestaurant: true, city: true, country: true } },
+        },
+        orderBy: { rank: "asc" },
+      },
+    },
+  });
+  if (!snapshot) return null;
+
+  const totals = new Map(snapshot.entries.map((e) => [e.chefId, e.totalScore]));
+  return snapshot.subRankings.map((r) => ({
+    rank: r.rank,
+    delta: r.delta,
+    score: r.score,
+    totalScore: totals.get(r.chefId) ?? r.score,
+    chef: r.chef,
+  }));
+}
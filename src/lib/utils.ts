@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { PendingChangeData } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -28,3 +29,22 @@ export function getCurrentMonth(): string {
   const now = new Date();
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
 }
+
+/** One-line summary of a collected record, as shown in the review queue and run history. */
+export function describeChange(change: Pick<PendingChangeData, "kind" | "payload">): string {
+  const p = change.payload;
+  switch (change.kind) {
+    case "accolade":
+      return [p.type, p.detail, p.restaurant, p.year].filter((v) => v != null && v !== "").join(" · ");
+    case "accoladeEnd":
+      return `Ends ${p.type ?? "all accolades"}${p.detail ? ` (${p.detail})` : ""}${p.restaurant ? ` at ${p.restaurant}` : ""} from ${p.endYear} · ${p.endReason}`;
+    case "careerEntry":
+      return `${p.role} at ${p.restaurant}${p.city ? `, ${p.city}` : ""}${p.startYear ? ` (${p.startYear}–${p.endYear ?? (p.isCurrent ? "present" : "")})` : ""}`;
+    case "publicSignal":
+      return `${p.platform}: ${p.metric ?? p.value ?? "—"}`;
+    case "peerStanding":
+      return [p.type, p.relatedChef, p.detail].filter(Boolean).join(" · ");
+    case "socialHandle":
+      return `${p.platform}: ${p.handle}`;
+  }
+}
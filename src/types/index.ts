@@ -25,10 +25,18 @@ export interface AccoladeData {
   id: string;
   type: string;
   detail: string | null;
+  restaurant: string | null;
   year: number | null;
+  endYear: number | null;
+  endReason: string | null;
   sourceUrl: string | null;
 }
 
+// Why an accolade stopped counting
+export const ACCOLADE_END_REASONS = ["LOST", "CLOSED", "DROPPED_OFF", "REVOKED", "EXPIRED"] as const;
+
+export type AccoladeEndReason = (typeof ACCOLADE_END_REASONS)[number];
+
 export interface CareerEntryData {
   id: string;
   role: string;
@@ -56,6 +64,19 @@ export interface PublicSignalData {
   sourceUrl: string | null;
 }
 
+// Platforms a chef can have a managed handle on
+export const SOCIAL_PLATFORMS = ["INSTAGRAM", "TIKTOK", "YOUTUBE", "X", "WEBSITE"] as const;
+
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+export interface SocialHandleData {
+  id: string;
+  platform: SocialPlatform;
+  handle: string;
+  sourceUrl: string | null;
+  origin: string | null;
+}
+
 export interface PeerStandingData {
   id: string;
   type: string;
@@ -67,6 +88,7 @@ export interface PeerStandingData {
 export interface ScoreBreakdown {
   formalAccolades: number;
   careerTrack: number;
+  industryRecognition: number;
   publicSignals: number;
   peerStanding: number;
 }
@@ -74,22 +96,216 @@ export interface ScoreBreakdown {
 export interface ScoringWeights {
   formalAccolades: number;
   careerTrack: number;
+  industryRecognition: number;
   publicSignals: number;
   peerStanding: number;
 }
 
+export const SCORE_CATEGORIES: (keyof ScoreBreakdown)[] = [
+  "formalAccolades",
+  "careerTrack",
+  "industryRecognition",
+  "publicSignals",
+  "peerStanding",
+];
+
 export const DEFAULT_WEIGHTS: ScoringWeights = {
-  formalAccolades: 0.35,
-  careerTrack: 0.25,
+  formalAccolades: 0.30,
+  careerTrack: 0.20,
+  industryRecognition: 0.15,
   publicSignals: 0.15,
-  peerStanding: 0.25,
+  peerStanding: 0.20,
 };
 
+export type DecayCurve = "step" | "linear" | "exponential";
+
+export const DECAY_CURVES: DecayCurve[] = ["step", "linear", "exponential"];
+
+export interface DecaySetting {
+  curve: DecayCurve;
+  // step: full weight up to this age, then zero; linear: age at which weight
+  // reaches zero; exponential: half-life. null uses rules.rollingWindowYears,
+  // 0 disables decay for the category.
+  years: number | null;
+}
+
+export type ScoringDecay = Record<keyof ScoreBreakdown, DecaySetting>;
+
+// Step at the rule set's rolling window reproduces the original hard cutoff
+export const DEFAULT_DECAY: ScoringDecay = {
+  formalAccolades: { curve: "step", years: null },
+  careerTrack: { curve: "step", years: null },
+  industryRecognition: { curve: "step", years: null },
+  publicSignals: { curve: "step", years: null },
+  peerStanding: { curve: "step", years: null },
+};
+
+export interface ScoreLineItem {
+  recordId: string | null; // null for aggregate lines such as bonuses and caps
+  label: string;
+  year: number | null;
+  points: number; // raw points this line adds to the category, after decay
+  decayWeight: number; // 1 = full weight, 0 = excluded by decay
+  excluded: boolean;
+  note: string | null;
+  provenance?: RecordProvenance | null; // filled in by the server-side explanation
+}
+
+// Where a scored record came from
+export interface RecordProvenance {
+  origin: string; // collector name, "Manual import" or "Manual edit"
+  runId: string | null;
+  newsItem: { id: string; title: string; url: string } | null;
+  collectedAt: string | null;
+  confidence: number | null; // 0-1
+}
+
+export interface CategoryExplanation {
+  category: keyof ScoreBreakdown;
+  score: number; // raw 0-100, as in ScoreBreakdown
+  uncapped: number; // sum of the line items before the 100 cap
+  decay: string;
+  items: ScoreLineItem[];
+  capsHit: string[];
+}
+
+export interface ScoreExplanation {
+  breakdown: ScoreBreakdown;
+  categories: CategoryExplanation[];
+}
+
+// Points keyed by type or count; null marks a key removed on purpose, so a default added later doesn't refill it
+export type PointsMap = Record<string, number | null>;
+
+export interface ScoringRules {
+  rollingWindowYears: number; // default decay horizon; 0 disables decay
+  formalAccolades: {
+    michelinStarPoints: PointsMap; // keyed by star count; "1" is the fallback
+    michelinStarLossPoints: number; // deducted per star a restaurant loses
+    accoladePoints: PointsMap; // headline award types, best one counts; ranked lists give their #1 value
+    listPlacePoints: number; // taken off a ranked list's points for each place below #1
+    gaultMillauToquePoints: PointsMap; // keyed by toque count; "1" is the fallback
+    bocuseDorPrizePoints: PointsMap; // keyed GOLD, SILVER, BRONZE or SPECIAL; any other prize counts as SPECIAL
+    laListeScoreFloor: number; // La Liste score worth 0; a perfect 100 earns its accoladePoints
+    otherPoints: number;
+    otherMultiplier: number;
+    additionalAccoladePoints: number; // per accolade beyond the first
+    additionalAccoladeCap: number;
+  };
+  careerTrack: {
+    pointsPerYear: number;
+    yearsCap: number;
+    pointsPerPosition: number;
+    positionsCap: number;
+    execRolePattern: string; // case-insensitive regex matched against role
+    execRolePoints: number;
+    otherRolePoints: number;
+  };
+  industryRecognition: {
+    pointsPerRecognition: number;
+    categoryPoints: PointsMap;
+  };
+  publicSignals: {
+    pointsPerSignal: number;
+    followerDivisor: number;
+    followerCap: number;
+    momentumWindowDays: number; // growth is measured over this trailing window
+    momentumPointsPerPct: number; // per 1% growth over the window; shrinking audiences score 0
+    momentumCap: number;
+  };
+  peerStanding: {
+    pointsPerPeer: number;
+    typePoints: PointsMap;
+  };
+  uncertainty: {
+    baseMargin: number; // ± points every score carries
+    completenessPenalty: number; // extra ± points at 0% data completeness, scaled linearly
+    reliabilityPenalty: number; // extra ± points when no record is sourced
+    unsourcedReliability: number; // 0-1 credit for a record without a source URL
+  };
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  rollingWindowYears: 10,
+  formalAccolades: {
+    michelinStarPoints: { "1": 40, "2": 70, "3": 100 },
+    michelinStarLossPoints: 10,
+    accoladePoints: {
+      JAMES_BEARD: 80,
+      WORLDS_50_BEST: 90,
+      ASIAS_50_BEST: 75,
+      LATIN_AMERICAS_50_BEST: 70,
+      LA_LISTE: 75,
+      MICHELIN_GREEN_STAR: 30,
+      MICHELIN_BIB_GOURMAND: 20,
+    },
+    listPlacePoints: 0.5,
+    gaultMillauToquePoints: { "1": 20, "2": 35, "3": 50, "4": 65, "5": 80 },
+    bocuseDorPrizePoints: { GOLD: 85, SILVER: 70, BRONZE: 55, SPECIAL: 25 },
+    laListeScoreFloor: 80,
+    otherPoints: 30,
+    otherMultiplier: 0.3,
+    additionalAccoladePoints: 5,
+    additionalAccoladeCap: 20,
+  },
+  careerTrack: {
+    pointsPerYear: 2,
+    yearsCap: 40,
+    pointsPerPosition: 6,
+    positionsCap: 30,
+    execRolePattern: "chef.*owner|executive|head chef|chef de cuisine",
+    execRolePoints: 30,
+    otherRolePoints: 15,
+  },
+  industryRecognition: {
+    pointsPerRecognition: 12,
+    categoryPoints: { MEDIA: 8, MENTORSHIP: 10, PUBLICATION: 5, SPEAKING: 6 },
+  },
+  publicSignals: {
+    pointsPerSignal: 15,
+    followerDivisor: 10000,
+    followerCap: 50,
+    momentumWindowDays: 90,
+    momentumPointsPerPct: 0.5,
+    momentumCap: 10,
+  },
+  peerStanding: {
+    pointsPerPeer: 10,
+    typePoints: { MENTORED: 15, COLLABORATION: 10, ENDORSEMENT: 12 },
+  },
+  uncertainty: {
+    baseMargin: 1,
+    completenessPenalty: 15,
+    reliabilityPenalty: 8,
+    unsourcedReliability: 0.5,
+  },
+};
+
+export interface ScoreUncertainty {
+  completeness: number; // 0-100, as in the data_completeness health check
+  reliability: number; // 0-1 share of sourced records
+  margin: number; // ± points around the total score
+  low: number;
+  high: number;
+}
+
+export interface ScoringRuleSetData {
+  id: string;
+  version: number;
+  name: string | null;
+  notes: string | null;
+  isActive: boolean;
+  rules: ScoringRules;
+  createdAt: string;
+}
+
 export interface RankingEntry {
   rank: number;
+  subRank?: number | null; // position within a country/cuisine filter
   chef: ChefWithRelations;
   totalScore: number;
   breakdown: ScoreBreakdown;
+  uncertainty: ScoreUncertainty;
   delta: number | null;
 }
 
@@ -98,6 +314,11 @@ export interface SnapshotData {
   month: string;
   publishedAt: string | null;
   notes: string | null;
+  // Scoring model live at publish time; null on snapshots published before it was recorded
+  ruleSetVersion: number | null;
+  weights: ScoringWeights | null;
+  decay: ScoringDecay | null;
+  rollingWindowYears: number | null;
   entries: SnapshotEntryData[];
 }
 
@@ -106,6 +327,8 @@ export interface SnapshotEntryData {
   chefId: string;
   rank: number;
   totalScore: number;
+  scoreLow: number | null; // uncertainty band at publish time
+  scoreHigh: number | null;
   breakdown: ScoreBreakdown | null;
   delta: number | null;
   chef?: {
@@ -117,6 +340,76 @@ export interface SnapshotEntryData {
   };
 }
 
+// accoladeEnd closes the chef's matching active accolades instead of adding a record;
+// socialHandle sets the chef's handle on a platform rather than anything scored
+export type ChangeKind = "accolade" | "accoladeEnd" | "careerEntry" | "publicSignal" | "peerStanding" | "socialHandle";
+
+export const CHANGE_KINDS: ChangeKind[] = ["accolade", "accoladeEnd", "careerEntry", "publicSignal", "peerStanding", "socialHandle"];
+
+export type ChangeStatus = "pending" | "approved" | "rejected";
+
+export type ChangeFieldType = "string" | "int" | "number" | "boolean";
+
+// Payload fields per kind, in canonical order so identical records serialize identically
+export const CHANGE_FIELDS: Record<ChangeKind, Record<string, { type: ChangeFieldType; required?: boolean }>> = {
+  accolade: {
+    type: { type: "string", required: true },
+    detail: { type: "string" },
+    restaurant: { type: "string" },
+    year: { type: "int" },
+    sourceUrl: { type: "string" },
+  },
+  accoladeEnd: {
+    type: { type: "string" }, // omitted: every accolade of the restaurant
+    restaurant: { type: "string" },
+    detail: { type: "string" },
+    endYear: { type: "int", required: true },
+    endReason: { type: "string", required: true },
+    sourceUrl: { type: "string" },
+  },
+  careerEntry: {
+    role: { type: "string", required: true },
+    restaurant: { type: "string", required: true },
+    city: { type: "string" },
+    startYear: { type: "int" },
+    endYear: { type: "int" },
+    isCurrent: { type: "boolean" },
+    sourceUrl: { type: "string" },
+  },
+  publicSignal: {
+    platform: { type: "string", required: true },
+    metric: { type: "string" },
+    value: { type: "number" },
+    sourceUrl: { type: "string" },
+  },
+  peerStanding: {
+    type: { type: "string", required: true },
+    detail: { type: "string" },
+    relatedChef: { type: "string" },
+    sourceUrl: { type: "string" },
+  },
+  socialHandle: {
+    platform: { type: "string", required: true },
+    handle: { type: "string", required: true },
+    sourceUrl: { type: "string" },
+  },
+};
+
+// A collected record waiting in the review queue; payload has the fields of the matching *Data type
+export interface PendingChangeData {
+  id: string;
+  chefId: string;
+  kind: ChangeKind;
+  source: string;
+  payload: Record<string, string | number | boolean | null>;
+  status: ChangeStatus;
+  recordId: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  chef: { name: string; slug: string };
+}
+
 export interface ManualChefData {
   name: string;
   city?: string;
@@ -128,7 +421,10 @@ export interface ManualChefData {
   accolades?: {
     type: string;
     detail?: string;
+    restaurant?: string;
     year?: number;
+    endYear?: number;
+    endReason?: string;
     sourceUrl?: string;
   }[];
   career?: {